@@ -14,7 +14,10 @@ export default defineConfig({
         input: {
           index: resolve(__dirname, 'src/main/index.ts'),
           vectorizer: resolve(__dirname, 'src/main/vectorizer-worker.ts'),
-          reranker: resolve(__dirname, 'src/main/reranker-worker.ts')
+          reranker: resolve(__dirname, 'src/main/reranker-worker.ts'),
+          ocr: resolve(__dirname, 'src/main/ocr-worker.ts'),
+          clip: resolve(__dirname, 'src/main/clip-worker.ts'),
+          transcriber: resolve(__dirname, 'src/main/transcriber-worker.ts')
         }
       }
     }
@@ -1,17 +1,59 @@
 import { initTRPC } from '@trpc/server'
 import { z } from 'zod'
 import { BrowserWindow, app, shell } from 'electron'
-import { BraveSearch } from 'brave-search'
 import SearchDB from './db'
+import SettingsStore from './settings'
+import CredentialStore, {
+  CREDENTIAL_PROVIDERS,
+  CredentialProvider,
+  testCredential
+} from './credentials'
+import IndexingQueue from './indexing-queue'
+import ChatHistoryStore, {
+  CHAT_PATH_PREFIX,
+  chatPath,
+  chatToMarkdown,
+  indexChatHistory,
+  indexChatThread
+} from './chat-history'
+import NotesStore from './notes'
+import { createIndexRoot, DEFAULT_ROOT_PATH, findRootForPath } from './index-roots'
+import {
+  RERANKER_MODELS,
+  activateModels,
+  createEmbeddingEndpoint,
+  getEmbeddingModel,
+  listEmbeddingModels
+} from './models'
 import log from './logger'
 import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import fs from 'node:fs/promises'
 import { readContent } from './utils/reader'
+import { supportsTranscription } from './extractors'
+import { createThumbnail } from './utils/thumbnail'
+import { isPrivateMode, onNetworkEvent, setPrivateMode } from './network-policy'
+import { describeWebSearchProviders, normalizeWebSearchConfig, searchWeb } from './web-search'
 import { embed, rerank } from './embeddings'
-import { SearchResult, CommonSearchResult } from './types'
+import { streamChat } from './llm'
+import { observable } from '@trpc/server/observable'
+import {
+  CommonSearchResult,
+  SearchFilters,
+  SearchPage,
+  SearchStreamEvent,
+  EmbeddingModel,
+  ImageSearchResult,
+  IndexEmbeddingInfo,
+  LLMCallOptions,
+  LLMStreamPart,
+  NetworkEvent,
+  WebSearchProviderId
+} from './types'
 
 interface CacheEntry {
   timestamp: number;
-  results: SearchResult[];
+  results: CommonSearchResult[];
 }
 
 const searchCache = new Map<string, CacheEntry>();
@@ -22,62 +64,126 @@ function isCacheValid(entry: CacheEntry): boolean {
   return Date.now() - entry.timestamp < CACHE_DURATION;
 }
 
+const SEARCH_PAGE_SIZE = 10
+
+const searchFiltersSchema = z.object({
+  extensions: z.array(z.string()).optional(),
+  pathPrefix: z.string().optional(),
+  modifiedAfter: z.number().optional(),
+  modifiedBefore: z.number().optional(),
+  sources: z.array(z.enum(['local', 'web'])).optional()
+})
+
+const chatMessageSchema = z.object({
+  question: z.string(),
+  answer: z.string(),
+  timestamp: z.number(),
+  sources: z.array(
+    z.object({
+      id: z.number().int().optional(),
+      path: z.string(),
+      title: z.string().optional(),
+      description: z.string().optional(),
+      relevance: z.number().optional(),
+      preview: z.string().optional(),
+      citations: z.array(z.string()).optional(),
+      location: z
+        .object({ chunkIndex: z.number(), start: z.number(), end: z.number() })
+        .optional()
+    })
+  ),
+  model: z.string().optional()
+})
+
+const noteInputSchema = z.object({
+  id: z.string().uuid(),
+  text: z.string(),
+  position: z.object({ x: z.number(), y: z.number() }),
+  sourcePath: z.string(),
+  title: z.string().optional(),
+  sourceType: z.enum(['document', 'web']).optional()
+})
+
+// Plain strings are still accepted so older callers keep working
+const searchInputSchema = z.union([
+  z.string(),
+  z.object({
+    query: z.string(),
+    filters: searchFiltersSchema.optional(),
+    limit: z.number().int().min(1).max(100).optional(),
+    offset: z.number().int().min(0).optional()
+  })
+])
+
+function normalizeSearchInput(input: z.infer<typeof searchInputSchema>): {
+  query: string
+  filters: SearchFilters
+  page: Required<SearchPage>
+} {
+  if (typeof input === 'string') {
+    return { query: input, filters: {}, page: { limit: SEARCH_PAGE_SIZE, offset: 0 } }
+  }
+  return {
+    query: input.query,
+    filters: input.filters ?? {},
+    page: { limit: input.limit ?? SEARCH_PAGE_SIZE, offset: input.offset ?? 0 }
+  }
+}
+
 const t = initTRPC.create({
   isServer: true
 })
 
-const braveSearch = new BraveSearch(process.env.BRAVE_API_KEY || '')
+const credentialProviderSchema = z.enum(CREDENTIAL_PROVIDERS)
 
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || ''
+const llmChatInputSchema = z.object({
+  endpoint: z.object({
+    baseUrl: z.string().url(),
+    model: z.string().min(1),
+    modelType: z.enum(['openai', 'ollama'])
+  }),
+  // Prompt, tools and sampling settings of the call, the provider checks the details
+  options: z.custom<LLMCallOptions>(
+    (value) =>
+      typeof value === 'object' &&
+      value !== null &&
+      Array.isArray((value as { prompt?: unknown }).prompt)
+  )
+})
 
-async function getPerplexityAnswer(searchTerm: string): Promise<SearchResult | null> {
-  try {
-    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${OPENROUTER_API_KEY}`,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify({
-        "model": "perplexity/llama-3.1-sonar-small-128k-online",
-        "messages": [
-          {
-            "role": "system",
-            "content": "You are a search engine api that provides answers to questions with as many links to sources as possible. You must include a link url in your answer"
-          },
-          {
-            "role": "user",
-            "content": searchTerm
-          }
-        ]
-      })
-    });
-
-    const data = await response.json();
-    const answer = data.choices?.[0]?.message?.content;
-
-    if (!answer) return null;
-
-    return {
-      text: answer,
-      metadata: {
-        path: answer.match(/\bhttps?:\/\/[^\s<>]+/)?.[0] || '',
-        title: 'AI Answer',
-        created_at: Date.now() / 1000,
-        modified_at: Date.now() / 1000,
-        filetype: 'web',
-        languages: ['en'],
-        links: [],
-        owner: null,
-        seen_at: Date.now() / 1000,
-        sourceType: 'web',
-        description: 'AI-generated answer from Perplexity'
-      }
-    };
-  } catch (error) {
-    log.error('Perplexity search failed:', error);
-    return null;
+const WEB_SEARCH_PROVIDER_IDS: [WebSearchProviderId, ...WebSearchProviderId[]] = [
+  'perplexity',
+  'brave',
+  'searxng'
+]
+
+async function getCredential(provider: CredentialProvider): Promise<string | null> {
+  const credentials = await CredentialStore.getInstance(app.getPath('userData'))
+  return credentials.get(provider)
+}
+
+/**
+ * Reads a file or URL the way indexing does, so scans in roots with OCR enabled come back
+ * with their recognized text. Recordings come from the transcript stored when they were
+ * indexed, transcribing them again would take minutes, and saved chats from the chat history.
+ */
+async function readSourceContent(source: string): Promise<string> {
+  const userDataPath = app.getPath('userData')
+  if (source.startsWith(CHAT_PATH_PREFIX)) {
+    const chatHistory = await ChatHistoryStore.getInstance(userDataPath)
+    const thread = chatHistory.get(source.slice(CHAT_PATH_PREFIX.length))
+    if (!thread) {
+      throw new Error(`Chat thread not found: ${source}`)
+    }
+    return chatToMarkdown(thread)
   }
+  if (supportsTranscription(source)) {
+    const searchDB = await SearchDB.getInstance(userDataPath)
+    return (await searchDB.getIndexedText(source)) ?? ''
+  }
+  const settings = await SettingsStore.getInstance(userDataPath)
+  const root = findRootForPath(settings.get('indexRoots'), source)
+  return await readContent(source, { ocr: root?.ocr })
 }
 
 export const getRouter = (window: BrowserWindow) => {
@@ -88,27 +194,48 @@ export const getRouter = (window: BrowserWindow) => {
       fetch: t.procedure.input(z.string()).query(async ({ input: filePath }) => {
         log.info('tRPC Call: document.fetch')
         try {
-          const content = await readContent(filePath)
+          const content = await readSourceContent(filePath)
           return content
         } catch (error) {
           log.error('Error reading file:', error)
           throw error
         }
       }),
-      open: t.procedure.input(z.string()).mutation(async ({ input: filePath }) => {
-        log.info('tRPC Call: document.open', filePath)
-        try {
-          if (filePath.startsWith('http')) {
-            // Open URLs in default browser
-            await shell.openExternal(filePath)
-          } else {
-            // Open local files
-            await shell.openPath(path.resolve(filePath))
+      open: t.procedure
+        .input(
+          z.union([
+            z.string(),
+            z.object({ path: z.string(), page: z.number().int().positive().optional() })
+          ])
+        )
+        .mutation(async ({ input }) => {
+          const { path: filePath, page } = typeof input === 'string' ? { path: input } : input
+          log.info('tRPC Call: document.open', filePath)
+          try {
+            if (filePath.startsWith('http')) {
+              // Open URLs in default browser
+              await shell.openExternal(filePath)
+            } else if (page && path.extname(filePath).toLowerCase() === '.pdf') {
+              // PDF viewers that understand open parameters jump to the page, others just
+              // open the file
+              await shell.openExternal(`${pathToFileURL(path.resolve(filePath))}#page=${page}`)
+            } else {
+              // Open local files
+              await shell.openPath(path.resolve(filePath))
+            }
+            return true
+          } catch (error) {
+            log.error('Error opening file:', error)
+            return false
           }
-          return true
+        }),
+      // Preview of an image hit as a data URL, null when the file cannot be read
+      thumbnail: t.procedure.input(z.string()).query(async ({ input: filePath }) => {
+        try {
+          return await createThumbnail(filePath)
         } catch (error) {
-          log.error('Error opening file:', error)
-          return false
+          log.error(`Error creating thumbnail for ${filePath}:`, error)
+          return null
         }
       })
     }),
@@ -169,39 +296,42 @@ export const getRouter = (window: BrowserWindow) => {
     }),
 
     search: router({
-      quick: t.procedure.input(z.string()).query(async ({ input: searchTerm }) => {
+      quick: t.procedure.input(searchInputSchema).query(async ({ input }) => {
         log.info('tRPC Call: search.quick')
+        const { query: searchTerm, filters, page } = normalizeSearchInput(input)
+        const includeLocal = !filters.sources || filters.sources.includes('local')
+        // Web answers are not paginated, they only come with the first page
+        const includeWeb =
+          (!filters.sources || filters.sources.includes('web')) &&
+          page.offset === 0 &&
+          !isPrivateMode()
+        const cacheKey = JSON.stringify({ query: searchTerm, filters, page })
         try {
           // Check cache first
-          const cachedResult = searchCache.get(searchTerm);
+          const cachedResult = searchCache.get(cacheKey);
           if (cachedResult && isCacheValid(cachedResult)) {
             log.info('Returning cached search results');
             return cachedResult.results;
           }
 
-          // Inside the quick search procedure, replace the commented section with:
-          const [fileResults, perplexityResult] = await Promise.all([
-            searchFiles(searchTerm),
-            getPerplexityAnswer(searchTerm).catch(error => {
-              log.error('Perplexity search failed:', error)
-              return null
-            })
+          const [fileResults, webResults] = await Promise.all([
+            includeLocal
+              ? searchFiles(searchTerm, filters, page).then(({ results }) => results)
+              : Promise.resolve([]),
+            includeWeb ? searchWebProviders(searchTerm) : Promise.resolve([])
           ]);
 
-          const combinedResults = [
-            ...(perplexityResult ? [perplexityResult] : []),
-            ...fileResults
-          ].filter((result) => result.text && result.text.trim().length > 0);
+          const combinedResults = [...webResults, ...fileResults].filter((result) => result.text && result.text.trim().length > 0);
 
-          searchCache.set(searchTerm, { timestamp: Date.now(), results: combinedResults });
+          searchCache.set(cacheKey, { timestamp: Date.now(), results: combinedResults });
 
           return combinedResults;
         } catch (error) {
           log.error('Error performing quick search:', error)
           // If the overall search fails, try to return just file results
           try {
-            const fileResults = await searchFiles(searchTerm)
-            return fileResults
+            const fileResults = includeLocal ? await searchFiles(searchTerm, filters, page) : null
+            return fileResults?.results ?? []
           } catch (innerError) {
             log.error('Even file search failed:', innerError)
             throw error // If everything fails, throw the original error
@@ -209,6 +339,109 @@ export const getRouter = (window: BrowserWindow) => {
         }
       }),
 
+      // Next page of local hits for "load more", without web answers
+      page: t.procedure.input(searchInputSchema).query(async ({ input }) => {
+        log.info('tRPC Call: search.page')
+        const { query: searchTerm, filters, page } = normalizeSearchInput(input)
+        return await searchFiles(searchTerm, filters, page)
+      }),
+
+      // Streams local hits as soon as they are ready, then web answers as they arrive,
+      // so a slow remote provider never holds back local results
+      stream: t.procedure.input(searchInputSchema).subscription(({ input }) => {
+        log.info('tRPC Call: search.stream')
+        const { query: searchTerm, filters, page } = normalizeSearchInput(input)
+        const includeLocal = !filters.sources || filters.sources.includes('local')
+        const includeWeb =
+          (!filters.sources || filters.sources.includes('web')) &&
+          page.offset === 0 &&
+          !isPrivateMode()
+
+        return observable<SearchStreamEvent>((emit) => {
+          let active = true
+          const nonEmpty = (results: CommonSearchResult[]): CommonSearchResult[] =>
+            results.filter((result) => result.text && result.text.trim().length > 0)
+
+          const local = includeLocal
+            ? searchFiles(searchTerm, filters, page)
+                .then(({ results, nextOffset }) => {
+                  if (active) {
+                    emit.next({
+                      type: 'results',
+                      source: 'local',
+                      results: nonEmpty(results),
+                      nextOffset
+                    })
+                  }
+                })
+                .catch((error) => {
+                  log.error('Streaming file search failed:', error)
+                  if (active) emit.next({ type: 'error', source: 'local', message: String(error) })
+                })
+            : Promise.resolve()
+
+          const web = includeWeb
+            ? searchWebProviders(searchTerm)
+                .then((results) => {
+                  if (active && results.length > 0) {
+                    emit.next({
+                      type: 'results',
+                      source: 'web',
+                      results: nonEmpty(results),
+                      nextOffset: null
+                    })
+                  }
+                })
+                .catch((error) => {
+                  log.error('Streaming web search failed:', error)
+                  if (active) emit.next({ type: 'error', source: 'web', message: String(error) })
+                })
+            : Promise.resolve()
+
+          // Pictures matching the description come once, with the first page of local hits
+          const images =
+            includeLocal && page.offset === 0
+              ? searchImages(searchTerm, filters)
+                  .then((results) => {
+                    if (active && results.length > 0) emit.next({ type: 'images', results })
+                  })
+                  .catch((error) => log.error('Image search failed:', error))
+              : Promise.resolve()
+
+          Promise.all([local, web, images]).finally(() => {
+            if (active) emit.complete()
+          })
+
+          return (): void => {
+            active = false
+          }
+        })
+      }),
+
+      getRerankSettings: t.procedure.query(async () => {
+        log.info('tRPC Call: search.getRerankSettings')
+        const settings = await SettingsStore.getInstance(app.getPath('userData'))
+        return settings.get('rerank')
+      }),
+
+      setRerankSettings: t.procedure
+        .input(
+          z.object({
+            enabled: z.boolean().optional(),
+            topK: z.number().int().min(1).max(100).optional(),
+            minScore: z.number().min(0).max(1).optional()
+          })
+        )
+        .mutation(async ({ input }) => {
+          log.info('tRPC Call: search.setRerankSettings', input)
+          const settings = await SettingsStore.getInstance(app.getPath('userData'))
+          const rerankSettings = { ...settings.get('rerank'), ...input }
+          await settings.set('rerank', rerankSettings)
+          // Cached results were ranked with the old settings
+          searchCache.clear()
+          return rerankSettings
+        }),
+
       // Add a new procedure to clear the cache
       clearCache: t.procedure.mutation(() => {
         log.info('tRPC Call: search.clearCache');
@@ -251,12 +484,417 @@ export const getRouter = (window: BrowserWindow) => {
     }),
 
     folder: router({
-      openAlBERT: t.procedure.mutation(() => {
+      openAlBERT: t.procedure.mutation(async () => {
         log.info('tRPC Call: folder.openAlBERT')
-        const alBERTPath = path.join(app.getPath('home'), 'alBERT')
+        const settings = await SettingsStore.getInstance(app.getPath('userData'))
+        const [firstRoot] = settings.get('indexRoots')
+        const alBERTPath = firstRoot?.path ?? path.join(app.getPath('home'), 'alBERT')
         shell.openPath(alBERTPath).catch((error) => {
           log.error('Failed to open alBERT folder:', error)
         })
+      }),
+      open: t.procedure.input(z.string()).mutation(async ({ input: folderPath }) => {
+        log.info('tRPC Call: folder.open', folderPath)
+        const error = await shell.openPath(path.resolve(folderPath))
+        if (error) {
+          log.error('Failed to open folder:', error)
+          return false
+        }
+        return true
+      })
+    }),
+
+    indexRoots: router({
+      list: t.procedure.query(async () => {
+        log.info('tRPC Call: indexRoots.list')
+        const settings = await SettingsStore.getInstance(app.getPath('userData'))
+        return settings.get('indexRoots')
+      }),
+      add: t.procedure
+        .input(
+          z.object({
+            path: z.string().min(1),
+            include: z.array(z.string()).optional(),
+            exclude: z.array(z.string()).optional(),
+            maxFileSize: z.number().positive().optional(),
+            ocr: z.boolean().optional(),
+            transcribe: z.boolean().optional()
+          })
+        )
+        .mutation(async ({ input }) => {
+          log.info('tRPC Call: indexRoots.add', input.path)
+          const userDataPath = app.getPath('userData')
+          const settings = await SettingsStore.getInstance(userDataPath)
+          const root = createIndexRoot(input.path, input)
+
+          const stats = await fs.stat(root.path).catch(() => null)
+          if (!stats?.isDirectory()) {
+            throw new Error(`Not a directory: ${root.path}`)
+          }
+          const roots = settings.get('indexRoots')
+          if (roots.some((existing) => existing.path === root.path)) {
+            throw new Error(`Already indexed: ${root.path}`)
+          }
+
+          await settings.set('indexRoots', [...roots, root])
+
+          // Index the new root in the background, then keep it up to date
+          const indexingQueue = await getIndexingQueue()
+          indexingQueue
+            .enqueueRoot(root, roots)
+            .then(() => indexingQueue.watchRoot(root))
+            .catch((error) => {
+              log.error(`Error indexing directory ${root.path}:`, error)
+            })
+
+          return root
+        }),
+      remove: t.procedure.input(z.string()).mutation(async ({ input: id }) => {
+        log.info('tRPC Call: indexRoots.remove', id)
+        const userDataPath = app.getPath('userData')
+        const settings = await SettingsStore.getInstance(userDataPath)
+        const roots = settings.get('indexRoots')
+        const root = roots.find((existing) => existing.id === id)
+        if (!root) {
+          return false
+        }
+
+        const remainingRoots = roots.filter((existing) => existing.id !== id)
+        await settings.set('indexRoots', remainingRoots)
+
+        // Stop watching and purge the root's files through the indexing queue
+        const indexingQueue = await getIndexingQueue()
+        await indexingQueue.unwatchRoot(root.id)
+        await indexingQueue.purgeRoot(root, remainingRoots)
+
+        return true
+      }),
+      update: t.procedure
+        .input(
+          z.object({
+            id: z.string(),
+            ocr: z.boolean().optional(),
+            transcribe: z.boolean().optional()
+          })
+        )
+        .mutation(async ({ input }) => {
+          log.info('tRPC Call: indexRoots.update', input.id)
+          const settings = await SettingsStore.getInstance(app.getPath('userData'))
+          const roots = settings.get('indexRoots')
+          const existing = roots.find((root) => root.id === input.id)
+          if (!existing) {
+            throw new Error(`Unknown index root: ${input.id}`)
+          }
+
+          const root = {
+            ...existing,
+            ocr: input.ocr ?? existing.ocr,
+            transcribe: input.transcribe ?? existing.transcribe ?? false
+          }
+          const otherRoots = roots.filter((other) => other.id !== root.id)
+          await settings.set(
+            'indexRoots',
+            roots.map((other) => (other.id === root.id ? root : other))
+          )
+
+          // Files whose content depends on OCR or transcription hash differently now, so
+          // queueing the root again re-reads just its PDFs and images or its recordings
+          const indexingQueue = await getIndexingQueue()
+          indexingQueue
+            .enqueueRoot(root, otherRoots)
+            .then(() => indexingQueue.watchRoot(root))
+            .catch((error) => {
+              log.error(`Error re-indexing directory ${root.path}:`, error)
+            })
+
+          return root
+        })
+    }),
+
+    indexing: router({
+      status: t.procedure.query(async () => {
+        const indexingQueue = await getIndexingQueue()
+        return indexingQueue.getStatus()
+      }),
+      pause: t.procedure.mutation(async () => {
+        log.info('tRPC Call: indexing.pause')
+        const indexingQueue = await getIndexingQueue()
+        await indexingQueue.pause()
+        return indexingQueue.getStatus()
+      }),
+      resume: t.procedure.mutation(async () => {
+        log.info('tRPC Call: indexing.resume')
+        const indexingQueue = await getIndexingQueue()
+        await indexingQueue.resume()
+        return indexingQueue.getStatus()
+      }),
+      cancel: t.procedure.mutation(async () => {
+        log.info('tRPC Call: indexing.cancel')
+        const indexingQueue = await getIndexingQueue()
+        await indexingQueue.cancel()
+        return indexingQueue.getStatus()
+      })
+    }),
+
+    credentials: router({
+      status: t.procedure.query(async () => {
+        log.info('tRPC Call: credentials.status')
+        const credentials = await CredentialStore.getInstance(app.getPath('userData'))
+        return credentials.status()
+      }),
+      set: t.procedure
+        .input(z.object({ provider: credentialProviderSchema, key: z.string().min(1) }))
+        .mutation(async ({ input }) => {
+          log.info('tRPC Call: credentials.set', input.provider)
+          const credentials = await CredentialStore.getInstance(app.getPath('userData'))
+          await credentials.set(input.provider, input.key.trim())
+          return credentials.status()
+        }),
+      clear: t.procedure.input(credentialProviderSchema).mutation(async ({ input: provider }) => {
+        log.info('tRPC Call: credentials.clear', provider)
+        const credentials = await CredentialStore.getInstance(app.getPath('userData'))
+        await credentials.clear(provider)
+        return credentials.status()
+      }),
+      // Tests the given key, or the stored one when no key is passed and the test goes to the
+      // provider's own host
+      test: t.procedure
+        .input(
+          z.object({
+            provider: credentialProviderSchema,
+            key: z.string().optional(),
+            baseUrl: z.string().url().optional()
+          })
+        )
+        .mutation(async ({ input }) => {
+          log.info('tRPC Call: credentials.test', input.provider)
+          return await testCredential(
+            input.provider,
+            input.key?.trim() || null,
+            () => getCredential(input.provider),
+            input.baseUrl
+          )
+        }),
+    }),
+
+    llm: router({
+      // Streams one model call, unsubscribing cancels it. Failures arrive as an error part so
+      // the renderer's stream reports them like any provider error.
+      chat: t.procedure.input(llmChatInputSchema).subscription(({ input }) => {
+        log.info('tRPC Call: llm.chat', input.endpoint.model)
+        return observable<LLMStreamPart>((emit) => {
+          const controller = new AbortController()
+          streamChat(
+            input.endpoint,
+            input.options,
+            getCredential,
+            (part) => emit.next(part),
+            controller.signal
+          )
+            .catch((error) => {
+              if (controller.signal.aborted) return
+              log.error('llm.chat failed:', error)
+              emit.next({
+                type: 'error',
+                error: error instanceof Error ? error.message : String(error)
+              })
+            })
+            .finally(() => emit.complete())
+          return (): void => controller.abort()
+        })
+      })
+    }),
+
+    webSearch: router({
+      getProviders: t.procedure.query(async () => {
+        log.info('tRPC Call: webSearch.getProviders')
+        const settings = await SettingsStore.getInstance(app.getPath('userData'))
+        return describeWebSearchProviders(settings.get('webSearch'))
+      }),
+      // Replaces the provider list, its order is the order results are merged in
+      setProviders: t.procedure
+        .input(
+          z.array(
+            z.object({
+              id: z.enum(WEB_SEARCH_PROVIDER_IDS),
+              enabled: z.boolean(),
+              baseUrl: z.string().url().optional()
+            })
+          )
+        )
+        .mutation(async ({ input }) => {
+          log.info('tRPC Call: webSearch.setProviders')
+          const settings = await SettingsStore.getInstance(app.getPath('userData'))
+          await settings.set('webSearch', normalizeWebSearchConfig(input))
+          searchCache.clear()
+          return describeWebSearchProviders(settings.get('webSearch'))
+        })
+    }),
+
+    privacy: router({
+      get: t.procedure.query(() => {
+        log.info('tRPC Call: privacy.get')
+        return { privateMode: isPrivateMode() }
+      }),
+      set: t.procedure.input(z.boolean()).mutation(async ({ input: privateMode }) => {
+        log.info('tRPC Call: privacy.set', privateMode)
+        const settings = await SettingsStore.getInstance(app.getPath('userData'))
+        await settings.set('privateMode', privateMode)
+        setPrivateMode(privateMode)
+        // Cached results may hold web answers fetched before the switch
+        searchCache.clear()
+        return { privateMode }
+      }),
+      // Every remote request the main process makes or blocks, for the network indicator
+      activity: t.procedure.subscription(() => {
+        log.info('tRPC Call: privacy.activity')
+        return observable<NetworkEvent>((emit) => onNetworkEvent((event) => emit.next(event)))
+      })
+    }),
+
+    chats: router({
+      list: t.procedure.input(z.string().optional()).query(async ({ input: query }) => {
+        log.info('tRPC Call: chats.list')
+        const chatHistory = await ChatHistoryStore.getInstance(app.getPath('userData'))
+        return chatHistory.list(query)
+      }),
+      get: t.procedure.input(z.string().uuid()).query(async ({ input: threadId }) => {
+        log.info('tRPC Call: chats.get', threadId)
+        const chatHistory = await ChatHistoryStore.getInstance(app.getPath('userData'))
+        const thread = chatHistory.get(threadId)
+        if (!thread) {
+          throw new Error(`Chat thread not found: ${threadId}`)
+        }
+        return thread
+      }),
+      // Saves a finished exchange, starting a new thread when no threadId is given
+      append: t.procedure
+        .input(z.object({ threadId: z.string().uuid().optional(), message: chatMessageSchema }))
+        .mutation(async ({ input }) => {
+          log.info('tRPC Call: chats.append', input.threadId)
+          const chatHistory = await ChatHistoryStore.getInstance(app.getPath('userData'))
+          const thread = await chatHistory.append(input.threadId, input.message)
+          reindexChatThread(thread.id)
+          return thread
+        }),
+      rename: t.procedure
+        .input(z.object({ threadId: z.string().uuid(), title: z.string() }))
+        .mutation(async ({ input }) => {
+          log.info('tRPC Call: chats.rename', input.threadId)
+          const chatHistory = await ChatHistoryStore.getInstance(app.getPath('userData'))
+          const thread = await chatHistory.rename(input.threadId, input.title)
+          reindexChatThread(thread.id)
+          return thread
+        }),
+      delete: t.procedure.input(z.string().uuid()).mutation(async ({ input: threadId }) => {
+        log.info('tRPC Call: chats.delete', threadId)
+        const userDataPath = app.getPath('userData')
+        const chatHistory = await ChatHistoryStore.getInstance(userDataPath)
+        const searchDB = await SearchDB.getInstance(userDataPath)
+        await chatHistory.delete(threadId)
+        await searchDB.removeFile(chatPath(threadId))
+        searchCache.clear()
+        return chatHistory.list()
+      })
+    }),
+
+    notes: router({
+      list: t.procedure.query(async () => {
+        log.info('tRPC Call: notes.list')
+        const notes = await NotesStore.getInstance(app.getPath('userData'))
+        return notes.list()
+      }),
+      save: t.procedure.input(noteInputSchema).mutation(async ({ input }) => {
+        const notes = await NotesStore.getInstance(app.getPath('userData'))
+        return await notes.save(input)
+      }),
+      delete: t.procedure.input(z.string()).mutation(async ({ input: noteId }) => {
+        log.info('tRPC Call: notes.delete', noteId)
+        const notes = await NotesStore.getInstance(app.getPath('userData'))
+        await notes.delete(noteId)
+        return true
+      }),
+      // Writes the note as markdown into the first index root, where the watcher indexes it
+      saveToFile: t.procedure.input(noteInputSchema).mutation(async ({ input }) => {
+        log.info('tRPC Call: notes.saveToFile', input.id)
+        const userDataPath = app.getPath('userData')
+        const notes = await NotesStore.getInstance(userDataPath)
+        const settings = await SettingsStore.getInstance(userDataPath)
+        const [firstRoot] = settings.get('indexRoots')
+        await notes.save(input)
+        return await notes.exportToRoot(input.id, firstRoot?.path ?? DEFAULT_ROOT_PATH)
+      }),
+      addAttachment: t.procedure
+        .input(z.object({ noteId: z.string().uuid(), name: z.string(), dataUrl: z.string() }))
+        .mutation(async ({ input }) => {
+          log.info('tRPC Call: notes.addAttachment', input.noteId, input.name)
+          const notes = await NotesStore.getInstance(app.getPath('userData'))
+          return await notes.addAttachment(input.noteId, input.name, input.dataUrl)
+        }),
+      readAttachment: t.procedure
+        .input(z.object({ noteId: z.string().uuid(), src: z.string() }))
+        .query(async ({ input }) => {
+          const notes = await NotesStore.getInstance(app.getPath('userData'))
+          return await notes.readAttachment(input.noteId, input.src)
+        })
+    }),
+
+    models: router({
+      list: t.procedure.query(async () => {
+        log.info('tRPC Call: models.list')
+        return await getModelsState()
+      }),
+      setEmbeddingModel: t.procedure.input(z.string()).mutation(async ({ input: id }) => {
+        log.info('tRPC Call: models.setEmbeddingModel', id)
+        const settings = await SettingsStore.getInstance(app.getPath('userData'))
+        if (!listEmbeddingModels(settings).some((model) => model.id === id)) {
+          throw new Error(`Unknown embedding model: ${id}`)
+        }
+        await settings.set('embeddingModel', id)
+        await applyModels()
+        return await getModelsState()
+      }),
+      setRerankerModel: t.procedure
+        .input(
+          z.string().refine((model) => RERANKER_MODELS.includes(model), 'Unknown reranker model')
+        )
+        .mutation(async ({ input: model }) => {
+          log.info('tRPC Call: models.setRerankerModel', model)
+          const settings = await SettingsStore.getInstance(app.getPath('userData'))
+          await settings.set('rerankerModel', model)
+          await applyModels()
+          return await getModelsState()
+        }),
+      addEndpoint: t.procedure
+        .input(
+          z.object({
+            name: z.string().min(1),
+            baseUrl: z.string().url(),
+            model: z.string().min(1),
+            dimension: z.number().int().positive().optional()
+          })
+        )
+        .mutation(async ({ input }) => {
+          log.info('tRPC Call: models.addEndpoint', input.baseUrl)
+          const settings = await SettingsStore.getInstance(app.getPath('userData'))
+          const model = createEmbeddingEndpoint(input)
+          await settings.set('customEmbeddingModels', [
+            ...settings.get('customEmbeddingModels'),
+            model
+          ])
+          return model
+        }),
+      removeEndpoint: t.procedure.input(z.string()).mutation(async ({ input: id }) => {
+        log.info('tRPC Call: models.removeEndpoint', id)
+        const settings = await SettingsStore.getInstance(app.getPath('userData'))
+        if (settings.get('embeddingModel') === id) {
+          throw new Error('Select another embedding model before removing this one')
+        }
+        await settings.set(
+          'customEmbeddingModels',
+          settings.get('customEmbeddingModels').filter((model) => model.id !== id)
+        )
+        return await getModelsState()
       })
     }),
 
@@ -268,7 +906,7 @@ export const getRouter = (window: BrowserWindow) => {
             const sources = await Promise.all(
               paths.map(async (path) => {
                 try {
-                  const content = await readContent(path)
+                  const content = await readSourceContent(path)
                   return {
                     path,
                     content,
@@ -296,7 +934,7 @@ export const getRouter = (window: BrowserWindow) => {
         .input(z.string()) // Single path
         .query(async ({ input: path }) => {
           try {
-            const content = await readContent(path)
+            const content = await readSourceContent(path)
             return {
               path,
               content,
@@ -316,55 +954,130 @@ export const getRouter = (window: BrowserWindow) => {
 }
 
 // Helper functions
-async function searchFiles(searchTerm: string): Promise<SearchResult[]> {
+/**
+ * Embeds a saved thread in the background so saving a chat never waits on the embedder
+ */
+function reindexChatThread(threadId: string): void {
+  const userDataPath = app.getPath('userData')
+  Promise.all([SearchDB.getInstance(userDataPath), ChatHistoryStore.getInstance(userDataPath)])
+    .then(async ([searchDB, chatHistory]) => {
+      const thread = chatHistory.get(threadId)
+      if (thread) {
+        await indexChatThread(searchDB, thread)
+        searchCache.clear()
+      }
+    })
+    .catch((error) => log.error(`Error indexing chat thread ${threadId}:`, error))
+}
+
+/**
+ * Web results from the providers enabled in settings, merged in their configured order
+ */
+async function searchWebProviders(searchTerm: string): Promise<CommonSearchResult[]> {
+  const settings = await SettingsStore.getInstance(app.getPath('userData'))
+  return searchWeb(searchTerm, settings.get('webSearch'), getCredential)
+}
+
+async function getIndexingQueue(): Promise<IndexingQueue> {
   const userDataPath = app.getPath('userData')
   const searchDB = await SearchDB.getInstance(userDataPath)
-  return await searchDB.search(searchTerm)
+  return IndexingQueue.getInstance(searchDB, userDataPath)
 }
 
-// Update the quickSearchWeb function to handle timeouts and failures
-async function quickSearchWeb(searchTerm: string): Promise<SearchResult[]> {
-  try {
-    // Create a promise that rejects after 1 second
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Web search timeout')), 2000)
-    })
+/**
+ * Switches to the models selected in settings, starting a background re-embed when the
+ * embedding model changed
+ */
+async function applyModels(): Promise<void> {
+  const userDataPath = app.getPath('userData')
+  const settings = await SettingsStore.getInstance(userDataPath)
+  const searchDB = await SearchDB.getInstance(userDataPath)
+  const chatHistory = await ChatHistoryStore.getInstance(userDataPath)
+  await activateModels(settings, searchDB, await getIndexingQueue(), () =>
+    indexChatHistory(searchDB, chatHistory)
+  )
+  // Cached results were embedded or ranked with the previous models
+  searchCache.clear()
+}
 
-    // Race between the web search and the timeout
-    const searchResults = await Promise.race([
-      braveSearch.webSearch(searchTerm, {
-        count: 5,
-        search_lang: 'en',
-        country: 'US',
-        text_decorations: false
-      }),
-      timeoutPromise
-    ])
+interface ModelsState {
+  embeddingModels: EmbeddingModel[]
+  embeddingModel: string
+  rerankerModels: string[]
+  rerankerModel: string
+  index: IndexEmbeddingInfo | null
+}
 
-    if (!searchResults.web?.results) {
-      return []
-    }
+async function getModelsState(): Promise<ModelsState> {
+  const userDataPath = app.getPath('userData')
+  const settings = await SettingsStore.getInstance(userDataPath)
+  const searchDB = await SearchDB.getInstance(userDataPath)
+  return {
+    embeddingModels: listEmbeddingModels(settings),
+    embeddingModel: getEmbeddingModel(settings).id,
+    rerankerModels: RERANKER_MODELS,
+    rerankerModel: settings.get('rerankerModel'),
+    index: searchDB.getEmbeddingInfo()
+  }
+}
 
-    return searchResults.web.results.map(result => ({
-      text: result.description || result.title,
-      metadata: {
-        path: result.url,
-        title: result.title,
-        created_at: Date.now() / 1000,
-        modified_at: Date.now() / 1000,
-        filetype: 'web',
-        languages: ['en'],
-        links: [result.url],
-        owner: null,
-        seen_at: Date.now() / 1000,
-        sourceType: 'web',
-        description: result.description
-      }
-    }))
+interface LocalSearchPage {
+  results: CommonSearchResult[]
+  nextOffset: number | null
+}
+
+/**
+ * Searches the local index and reranks the page of hits. The next offset counts
+ * first-stage hits, so hits dropped by the reranker are not fetched again.
+ */
+async function searchFiles(
+  searchTerm: string,
+  filters: SearchFilters = {},
+  { limit = SEARCH_PAGE_SIZE, offset = 0 }: SearchPage = {}
+): Promise<LocalSearchPage> {
+  const userDataPath = app.getPath('userData')
+  const searchDB = await SearchDB.getInstance(userDataPath)
+  const hits = await searchDB.search(searchTerm, filters, { limit, offset })
+  return {
+    results: await rerankResults(searchTerm, hits),
+    nextOffset: hits.length === limit ? offset + hits.length : null
+  }
+}
+
+async function searchImages(
+  searchTerm: string,
+  filters: SearchFilters = {}
+): Promise<ImageSearchResult[]> {
+  const searchDB = await SearchDB.getInstance(app.getPath('userData'))
+  return await searchDB.searchImages(searchTerm, filters)
+}
+
+/**
+ * Second-stage ranking of local hits with the cross-encoder, following the rerank settings.
+ * Keeps the first-stage order when the reranker is disabled or fails.
+ */
+async function rerankResults(
+  searchTerm: string,
+  results: CommonSearchResult[]
+): Promise<CommonSearchResult[]> {
+  const settings = await SettingsStore.getInstance(app.getPath('userData'))
+  const { enabled, topK, minScore } = settings.get('rerank')
+  if (!enabled || !searchTerm.trim() || results.length === 0) {
+    return results
+  }
+
+  try {
+    const rankings = await rerank(
+      searchTerm,
+      results.map((result) => result.text),
+      { top_k: topK }
+    )
+    return rankings
+      .filter((ranking) => ranking.score >= minScore)
+      .map((ranking) => ({ ...results[ranking.corpus_id], score: ranking.score }))
   } catch (error) {
-    // Log the error but don't throw - just return empty results
-    log.warn('Web search failed or timed out:', error)
-    return []
+    log.error('Reranking failed, keeping search order:', error)
+    return results
   }
 }
 
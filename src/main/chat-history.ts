@@ -0,0 +1,175 @@
+import path from 'path'
+import fs from 'fs/promises'
+import { v4 as uuidv4 } from 'uuid'
+import { logger } from './utils/logger'
+import type SearchDB from './db'
+import type { ChatMessage, ChatThread, ChatThreadSummary } from './types'
+
+// Indexed threads are stored under this pseudo path so search hits can be told apart from files
+export const CHAT_PATH_PREFIX = 'albert-chat://'
+
+const TITLE_LENGTH = 80
+
+export const chatPath = (threadId: string): string => `${CHAT_PATH_PREFIX}${threadId}`
+
+const truncate = (text: string, length: number): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim()
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine
+}
+
+/**
+ * Renders a thread as markdown, the form it is embedded and searched in
+ */
+export function chatToMarkdown(thread: ChatThread): string {
+  return [
+    `# ${thread.title}`,
+    ...thread.messages.map((message) => `## ${message.question}\n\n${message.answer}`)
+  ].join('\n\n')
+}
+
+/**
+ * Saved conversations, one JSON file per thread in `alBERT_chats/`
+ */
+class ChatHistoryStore {
+  private static instance: ChatHistoryStore | null = null
+  private threads = new Map<string, ChatThread>()
+  private chatsPath: string
+
+  private constructor(chatsPath: string) {
+    this.chatsPath = chatsPath
+  }
+
+  public static async getInstance(userDataPath: string): Promise<ChatHistoryStore> {
+    if (!ChatHistoryStore.instance) {
+      const store = new ChatHistoryStore(path.join(userDataPath, 'alBERT_chats'))
+      await store.load()
+      ChatHistoryStore.instance = store
+    }
+    return ChatHistoryStore.instance
+  }
+
+  private async load(): Promise<void> {
+    await fs.mkdir(this.chatsPath, { recursive: true })
+    const files = (await fs.readdir(this.chatsPath)).filter((file) => file.endsWith('.json'))
+    for (const file of files) {
+      try {
+        const thread: ChatThread = JSON.parse(
+          await fs.readFile(path.join(this.chatsPath, file), 'utf-8')
+        )
+        this.threads.set(thread.id, thread)
+      } catch (error) {
+        logger.error(`Error loading chat thread ${file}:`, error)
+      }
+    }
+    logger.info(`Loaded ${this.threads.size} chat threads`)
+  }
+
+  /**
+   * Threads sorted by last activity, optionally narrowed to those mentioning `query`
+   */
+  public list(query: string = ''): ChatThreadSummary[] {
+    const needle = query.trim().toLowerCase()
+    return Array.from(this.threads.values())
+      .filter(
+        (thread) =>
+          !needle ||
+          thread.title.toLowerCase().includes(needle) ||
+          thread.messages.some(
+            (message) =>
+              message.question.toLowerCase().includes(needle) ||
+              message.answer.toLowerCase().includes(needle)
+          )
+      )
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(({ messages, ...thread }) => ({
+        ...thread,
+        messageCount: messages.length,
+        preview: truncate(messages[messages.length - 1]?.question ?? '', TITLE_LENGTH)
+      }))
+  }
+
+  public get(threadId: string): ChatThread | undefined {
+    return this.threads.get(threadId)
+  }
+
+  public getAll(): ChatThread[] {
+    return Array.from(this.threads.values())
+  }
+
+  /**
+   * Adds a finished exchange to a thread, starting a new one when `threadId` is unknown
+   */
+  public async append(threadId: string | undefined, message: ChatMessage): Promise<ChatThread> {
+    const existing = threadId ? this.threads.get(threadId) : undefined
+    const now = Date.now()
+    const thread: ChatThread = existing
+      ? {
+          ...existing,
+          updatedAt: now,
+          model: message.model ?? existing.model,
+          messages: [...existing.messages, message]
+        }
+      : {
+          id: uuidv4(),
+          title: truncate(message.question, TITLE_LENGTH),
+          createdAt: now,
+          updatedAt: now,
+          model: message.model,
+          messages: [message]
+        }
+
+    await this.save(thread)
+    return thread
+  }
+
+  public async rename(threadId: string, title: string): Promise<ChatThread> {
+    const thread = this.threads.get(threadId)
+    if (!thread) {
+      throw new Error(`Chat thread not found: ${threadId}`)
+    }
+    const renamed = { ...thread, title: title.trim() || thread.title }
+    await this.save(renamed)
+    return renamed
+  }
+
+  public async delete(threadId: string): Promise<void> {
+    this.threads.delete(threadId)
+    await fs.rm(this.threadPath(threadId), { force: true })
+  }
+
+  private threadPath(threadId: string): string {
+    return path.join(this.chatsPath, `${path.basename(threadId)}.json`)
+  }
+
+  private async save(thread: ChatThread): Promise<void> {
+    this.threads.set(thread.id, thread)
+    try {
+      await fs.writeFile(this.threadPath(thread.id), JSON.stringify(thread, null, 2), 'utf-8')
+    } catch (error) {
+      logger.error(`Error persisting chat thread ${thread.id}:`, error)
+      throw error
+    }
+  }
+}
+
+/**
+ * Embeds a thread into the search index so past answers show up next to files. Unchanged
+ * threads are skipped by the content hash.
+ */
+export async function indexChatThread(searchDB: SearchDB, thread: ChatThread): Promise<void> {
+  await searchDB.indexUrl(chatPath(thread.id), chatToMarkdown(thread), thread.title)
+}
+
+/**
+ * Indexes every saved thread, used at startup and after the index was rebuilt
+ */
+export async function indexChatHistory(
+  searchDB: SearchDB,
+  chatHistory: ChatHistoryStore
+): Promise<void> {
+  for (const thread of chatHistory.getAll()) {
+    await indexChatThread(searchDB, thread)
+  }
+}
+
+export default ChatHistoryStore
@@ -0,0 +1,89 @@
+import { parentPort } from 'worker_threads'
+import type { PreTrainedModel, PreTrainedTokenizer, Processor } from '@xenova/transformers'
+
+const DEFAULT_MODEL = 'Xenova/clip-vit-base-patch32'
+
+interface ClipModels {
+  processor: Processor
+  visionModel: PreTrainedModel
+  tokenizer: PreTrainedTokenizer
+  textModel: PreTrainedModel
+}
+
+let models: ClipModels | null = null
+let loadedModel: string | null = null
+
+// Image and text towers share one embedding space, so both are loaded together
+async function initializeModels(model_id: string): Promise<ClipModels> {
+  if (!models || loadedModel !== model_id) {
+    const {
+      AutoProcessor,
+      AutoTokenizer,
+      CLIPTextModelWithProjection,
+      CLIPVisionModelWithProjection
+    } = await import('@xenova/transformers')
+
+    models = {
+      processor: await AutoProcessor.from_pretrained(model_id),
+      visionModel: await CLIPVisionModelWithProjection.from_pretrained(model_id, {
+        quantized: false
+      }),
+      tokenizer: await AutoTokenizer.from_pretrained(model_id),
+      textModel: await CLIPTextModelWithProjection.from_pretrained(model_id, { quantized: false })
+    }
+    loadedModel = model_id
+    console.log(`CLIP model ${model_id} initialized`)
+  }
+  return models
+}
+
+/**
+ * Normalized embedding of an image file, comparable to the ones of embedText()
+ */
+async function embedImage(filePath: string, model_id: string): Promise<number[]> {
+  const { processor, visionModel } = await initializeModels(model_id)
+  const { RawImage } = await import('@xenova/transformers')
+
+  const image = await RawImage.read(filePath)
+  const inputs = await processor(image)
+  const { image_embeds } = await visionModel(inputs)
+  return image_embeds.normalize(2, -1).tolist()[0]
+}
+
+/**
+ * Normalized embedding of a description, for finding the images that match it
+ */
+async function embedText(text: string, model_id: string): Promise<number[]> {
+  const { tokenizer, textModel } = await initializeModels(model_id)
+
+  const inputs = tokenizer([text], { padding: true, truncation: true })
+  const { text_embeds } = await textModel(inputs)
+  return text_embeds.normalize(2, -1).tolist()[0]
+}
+
+if (parentPort) {
+  console.log('CLIP worker initialized')
+
+  parentPort.on('message', async (message) => {
+    try {
+      const model = message.model ?? DEFAULT_MODEL
+      let embedding: number[]
+      if (message.type === 'embedImage') {
+        embedding = await embedImage(message.path, model)
+      } else if (message.type === 'embedText') {
+        embedding = await embedText(message.text, model)
+      } else {
+        return
+      }
+      parentPort?.postMessage({ id: message.id, type: 'result', embedding })
+    } catch (error) {
+      parentPort?.postMessage({
+        id: message.id,
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+}
+
+export type {} // Keep TypeScript happy
@@ -0,0 +1,181 @@
+import path from 'path'
+import fs from 'fs/promises'
+import { safeStorage } from 'electron'
+import { logger } from './utils/logger'
+import { policyFetch } from './network-policy'
+import {
+  CREDENTIAL_PROVIDERS,
+  isCredentialHost,
+  type CredentialProvider
+} from '../shared/providers'
+
+export { CREDENTIAL_PROVIDERS, type CredentialProvider }
+
+// Keys from the environment still work for development, stored keys take precedence
+const ENV_KEYS: Partial<Record<CredentialProvider, string>> = {
+  openrouter: 'OPENROUTER_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  brave: 'BRAVE_API_KEY'
+}
+
+export interface CredentialStatus {
+  provider: CredentialProvider
+  configured: boolean
+  source: 'stored' | 'env' | null
+}
+
+export interface CredentialTestResult {
+  ok: boolean
+  message: string
+}
+
+type EncryptedCredentials = Partial<Record<CredentialProvider, string>> // base64 ciphertext
+
+/**
+ * API keys encrypted with Electron's safeStorage (Keychain, DPAPI or libsecret) and kept in
+ * the main process. Only ciphertext is written to disk.
+ */
+class CredentialStore {
+  private static instance: CredentialStore | null = null
+  private credentials: EncryptedCredentials
+  private credentialsPath: string
+
+  private constructor(credentialsPath: string, credentials: EncryptedCredentials) {
+    this.credentialsPath = credentialsPath
+    this.credentials = credentials
+  }
+
+  public static async getInstance(userDataPath: string): Promise<CredentialStore> {
+    if (!CredentialStore.instance) {
+      const credentialsPath = path.join(userDataPath, 'alBERT_credentials.json')
+      CredentialStore.instance = new CredentialStore(
+        credentialsPath,
+        await CredentialStore.load(credentialsPath)
+      )
+    }
+    return CredentialStore.instance
+  }
+
+  private static async load(credentialsPath: string): Promise<EncryptedCredentials> {
+    try {
+      return JSON.parse(await fs.readFile(credentialsPath, 'utf-8'))
+    } catch {
+      logger.info('No stored credentials found.')
+      return {}
+    }
+  }
+
+  /**
+   * Decrypts the key for a provider, falling back to its environment variable
+   */
+  public get(provider: CredentialProvider): string | null {
+    const encrypted = this.credentials[provider]
+    if (encrypted) {
+      try {
+        return safeStorage.decryptString(Buffer.from(encrypted, 'base64'))
+      } catch (error) {
+        logger.error(`Error decrypting ${provider} credential:`, error)
+        return null
+      }
+    }
+    const envKey = ENV_KEYS[provider]
+    return (envKey && process.env[envKey]) || null
+  }
+
+  public async set(provider: CredentialProvider, key: string): Promise<void> {
+    if (!safeStorage.isEncryptionAvailable()) {
+      throw new Error('Encrypted storage is not available on this system')
+    }
+    this.credentials = {
+      ...this.credentials,
+      [provider]: safeStorage.encryptString(key).toString('base64')
+    }
+    await this.persist()
+  }
+
+  public async clear(provider: CredentialProvider): Promise<void> {
+    const credentials = { ...this.credentials }
+    delete credentials[provider]
+    this.credentials = credentials
+    await this.persist()
+  }
+
+  public status(): CredentialStatus[] {
+    return CREDENTIAL_PROVIDERS.map((provider) => {
+      const envKey = ENV_KEYS[provider]
+      const source = this.credentials[provider]
+        ? 'stored'
+        : envKey && process.env[envKey]
+          ? 'env'
+          : null
+      return { provider, configured: source !== null, source }
+    })
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await fs.writeFile(this.credentialsPath, JSON.stringify(this.credentials, null, 2), {
+        encoding: 'utf-8',
+        mode: 0o600
+      })
+    } catch (error) {
+      logger.error('Error persisting credentials:', error)
+      throw error
+    }
+  }
+}
+
+/**
+ * Checks a key against the provider with the cheapest authenticated request it offers
+ * @param typedKey Key entered by the user, the stored one is used when it is null
+ * @param getStoredKey Stored key, only sent when the request goes to the provider's own host
+ * @param baseUrl Server to test for OpenAI compatible and self-hosted providers
+ */
+export async function testCredential(
+  provider: CredentialProvider,
+  typedKey: string | null,
+  getStoredKey: () => Promise<string | null>,
+  baseUrl?: string
+): Promise<CredentialTestResult> {
+  const urls: Record<CredentialProvider, string> = {
+    openrouter: 'https://openrouter.ai/api/v1/auth/key',
+    openai: `${baseUrl ?? 'https://api.openai.com/v1'}/models`,
+    ollama: `${(baseUrl ?? 'http://localhost:11434/v1').replace(/\/v1\/?$/, '')}/api/tags`,
+    brave: 'https://api.search.brave.com/res/v1/web/search?q=test&count=1'
+  }
+  const url = urls[provider]
+  const storedKeyAllowed = isCredentialHost(provider, url)
+  const key = typedKey || (storedKeyAllowed ? await getStoredKey() : null)
+
+  if (!key && provider !== 'ollama') {
+    return {
+      ok: false,
+      message: storedKeyAllowed
+        ? 'No key configured'
+        : `Enter the key to test it against ${new URL(url).host}`
+    }
+  }
+  const headers: Record<string, string> =
+    provider === 'brave'
+      ? { Accept: 'application/json', 'X-Subscription-Token': key ?? '' }
+      : key
+        ? { Authorization: `Bearer ${key}` }
+        : {}
+  try {
+    const response = await policyFetch(provider, url, { headers })
+    if (response.ok) {
+      return { ok: true, message: 'Key accepted' }
+    }
+    return {
+      ok: false,
+      message:
+        response.status === 401 || response.status === 403
+          ? 'Key rejected by the provider'
+          : `Provider returned ${response.status}`
+    }
+  } catch (error) {
+    return { ok: false, message: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+export default CredentialStore
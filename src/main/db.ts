@@ -1,10 +1,32 @@
 import path from 'path'
 import fs from 'fs/promises'
 import { sha256 } from 'hash-wasm'
-import { embed } from './embeddings'
+import { embed, embedImage, embedImageQuery } from './embeddings'
 import { logger } from './utils/logger'
 import type { EmbeddedClient } from 'weaviate-ts-embedded'
-import { readContent } from './utils/reader'
+import type { FSWatcher } from 'chokidar'
+import type { WeaviateClass, WhereFilter } from 'weaviate-ts-client'
+import {
+  extractDocument,
+  locateSections,
+  supportsOcr,
+  supportsTranscription,
+  type DocumentMetadata,
+  type DocumentSection,
+  type ExtractedDocument,
+  type ExtractOptions
+} from './extractors'
+import { chunkText } from './utils/chunker'
+import { expandHome, isDirectoryExcluded, isPathIncluded } from './index-roots'
+import type {
+  CommonSearchResult,
+  FileEvent,
+  ImageSearchResult,
+  IndexEmbeddingInfo,
+  IndexRoot,
+  SearchFilters,
+  SearchPage
+} from './types'
 
 /* monkeypatch fetch to allow weaviate port */
 
@@ -21,24 +43,100 @@ interface FileIndex {
   [path: string]: string // path -> hash mapping
 }
 
+// Files are split into overlapping chunks, each stored as its own object linked to the
+// parent file through `path`. The legacy one-object-per-file class is dropped on startup.
+// `path` is tokenized as a whole field, so filters on it match exact paths and prefixes
+// rather than every file sharing a word with them.
+const CHUNK_CLASS = 'FileChunk'
+const LEGACY_CLASS = 'File'
+const CHUNK_SIZE = 1000
+const CHUNK_OVERLAP = 200
+const DEFAULT_PAGE_SIZE = 10
+// Bumped when extractors change what they read from a file, so files indexed before are
+// re-read even though their bytes did not change
+const EXTRACTION_VERSION = 4
+
 const schema = {
-  class: 'File',
+  class: CHUNK_CLASS,
   properties: [
-    { name: 'path', dataType: ['string'] },
+    { name: 'path', dataType: ['text'], tokenization: 'field' as const },
     { name: 'content', dataType: ['text'] },
     { name: 'filename', dataType: ['string'] },
     { name: 'extension', dataType: ['string'] },
     { name: 'lastModified', dataType: ['number'] },
+    { name: 'hash', dataType: ['string'] },
+    { name: 'chunkIndex', dataType: ['int'] },
+    { name: 'startOffset', dataType: ['int'] },
+    { name: 'endOffset', dataType: ['int'] },
+    { name: 'title', dataType: ['string'] },
+    { name: 'author', dataType: ['string'] },
+    { name: 'language', dataType: ['string'] },
+    { name: 'pageCount', dataType: ['int'] },
+    { name: 'page', dataType: ['int'] },
+    { name: 'section', dataType: ['string'] },
+    { name: 'ocrConfidence', dataType: ['number'] },
+    { name: 'startTime', dataType: ['number'] },
+    { name: 'endTime', dataType: ['number'] }
+  ],
+  vectorizer: 'none'
+}
+
+// Pictures additionally get one object each in their own class, holding a CLIP vector that
+// text queries embedded by the same model are compared with
+const IMAGE_CLASS = 'ImageFile'
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.gif', '.tif', '.tiff'])
+const DEFAULT_IMAGE_LIMIT = 12
+// Cosine distance beyond which an image has nothing to do with the query
+const MAX_IMAGE_DISTANCE = 0.8
+
+const imageSchema = {
+  class: IMAGE_CLASS,
+  properties: [
+    { name: 'path', dataType: ['text'], tokenization: 'field' as const },
+    { name: 'filename', dataType: ['string'] },
+    { name: 'extension', dataType: ['string'] },
+    { name: 'lastModified', dataType: ['number'] },
     { name: 'hash', dataType: ['string'] }
   ],
   vectorizer: 'none'
 }
 
+const isImageFile = (filePath: string): boolean =>
+  IMAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase())
+
+interface WeaviateImage {
+  path: string
+  filename: string
+  extension: string
+  lastModified: number
+  _additional: { distance: number }
+}
+
 interface WeaviateDocument {
   content: string
   path: string
+  filename: string
   lastModified: number
   extension: string
+  chunkIndex: number
+  startOffset: number
+  endOffset: number
+  title?: string
+  author?: string
+  language?: string
+  pageCount?: number
+  page?: number
+  section?: string
+  ocrConfidence?: number
+  startTime?: number
+  endTime?: number
+}
+
+interface ChunkProperties extends DocumentMetadata {
+  filename: string
+  extension: string
+  lastModified: number
+  hash: string
 }
 
 class SearchDB {
@@ -46,64 +144,24 @@ class SearchDB {
   private client: EmbeddedClient
   private fileIndex: FileIndex = {}
   private indexPath: string
+  private metaPath: string
+  private embeddingInfo: IndexEmbeddingInfo | null = null
   private isShuttingDown: boolean = false
+  private watchers = new Map<string, FSWatcher>()
 
-  private constructor(client: EmbeddedClient, indexPath: string) {
+  private constructor(client: EmbeddedClient, indexPath: string, metaPath: string) {
     this.client = client
     this.indexPath = indexPath
+    this.metaPath = metaPath
     this.setupShutdownHandlers()
   }
 
-  public async indexDirectory(
-    dirPath: string,
-    progressCallback?: (progress: number, status: string) => void
-  ): Promise<string[]> {
+  /**
+   * @param options How to read the file, e.g. whether its root enables OCR or transcription
+   */
+  public async indexFile(filePath: string, options: ExtractOptions = {}): Promise<void> {
     try {
-      const entries = await fs.readdir(dirPath, { withFileTypes: true })
-      const currentFiles = new Set<string>()
-      let processed = 0
-      const total = entries.length
-
-      for (const entry of entries) {
-        try {
-          const fullPath = path.join(dirPath, entry.name)
-
-          if (entry.isDirectory()) {
-            await this.indexDirectory(fullPath, progressCallback)
-          } else {
-            currentFiles.add(fullPath)
-            await this.indexFile(fullPath)
-            processed++
-
-            if (progressCallback) {
-              const progress = (processed / total) * 100
-              progressCallback(progress, `Indexing ${entry.name}`)
-            }
-          }
-        } catch (error) {
-          logger.error(`Error processing entry ${entry.name}:`, error)
-        }
-      }
-
-      // Clean up deleted files
-      const filesToRemove = Object.keys(this.fileIndex).filter(
-        (indexedPath) => indexedPath.startsWith(dirPath) && !currentFiles.has(indexedPath)
-      )
-
-      for (const fileToRemove of filesToRemove) {
-        await this.removeFile(fileToRemove)
-      }
-
-      return Array.from(currentFiles)
-    } catch (error) {
-      logger.error(`Error indexing directory ${dirPath}:`, error)
-      throw error
-    }
-  }
-
-  public async indexFile(filePath: string): Promise<void> {
-    try {
-      const currentHash = await this.calculateFileHash(filePath)
+      const currentHash = await this.calculateFileHash(filePath, options)
       const previousHash = this.fileIndex[filePath]
 
       if (previousHash === currentHash) {
@@ -118,36 +176,104 @@ class SearchDB {
 
       const stats = await fs.stat(filePath)
       const parsedPath = path.parse(filePath)
-      const content = await this.getContent(filePath)
+      const { text, metadata, sections } = await this.getContent(filePath, options)
 
-      const vector = await embed(content)
-
-      await this.client.data
-        .creator()
-        .withClassName('File')
-        .withProperties({
-          path: filePath,
-          content: content,
-          filename: parsedPath.name,
-          extension: parsedPath.ext.slice(1),
-          lastModified: stats.mtimeMs,
-          hash: currentHash
-        })
-        .withVector(vector)
-        .do()
+      const fileProperties = {
+        filename: parsedPath.name,
+        extension: parsedPath.ext.slice(1),
+        lastModified: stats.mtimeMs,
+        hash: currentHash
+      }
+      const chunkCount = await this.storeChunks(
+        filePath,
+        text,
+        { ...metadata, ...fileProperties },
+        sections
+      )
+      if (isImageFile(filePath)) {
+        await this.storeImage(filePath, fileProperties)
+      }
 
       this.fileIndex[filePath] = currentHash
       await this.persist()
-      logger.info(`Indexed file: ${filePath}`)
+      logger.info(`Indexed file: ${filePath} (${chunkCount} chunks)`)
     } catch (error) {
       logger.error(`Error indexing file ${filePath}:`, error)
       throw error
     }
   }
 
+  /**
+   * Splits content into chunks, embeds them in batches and stores one object per chunk
+   * @param sections Pages, slides, cells or headings of the content, each chunk is labelled
+   * with the ones it overlaps
+   * @returns Number of chunks stored
+   */
+  private async storeChunks(
+    sourcePath: string,
+    content: string,
+    properties: ChunkProperties,
+    sections: DocumentSection[] = []
+  ): Promise<number> {
+    const chunks = chunkText(content, { chunkSize: CHUNK_SIZE, chunkOverlap: CHUNK_OVERLAP })
+    if (chunks.length === 0) {
+      return 0
+    }
+
+    const vectors = (await embed(chunks.map((chunk) => chunk.text))) as number[][]
+
+    const batcher = this.client.batch.objectsBatcher()
+    chunks.forEach((chunk, chunkIndex) => {
+      batcher.withObject({
+        class: CHUNK_CLASS,
+        properties: {
+          ...properties,
+          ...locateSections(sections, chunk.start, chunk.end),
+          path: sourcePath,
+          content: chunk.text,
+          chunkIndex,
+          startOffset: chunk.start,
+          endOffset: chunk.end
+        },
+        vector: vectors[chunkIndex]
+      })
+    })
+    await batcher.do()
+
+    return chunks.length
+  }
+
+  /**
+   * Embeds a picture with CLIP and stores it, replacing any earlier version. Failures are
+   * only logged so the file's text stays indexed.
+   */
+  private async storeImage(filePath: string, properties: ChunkProperties): Promise<void> {
+    try {
+      await this.removeImage(filePath)
+      const vector = await embedImage(filePath)
+      await this.client.data
+        .creator()
+        .withClassName(IMAGE_CLASS)
+        .withProperties({ ...properties, path: filePath })
+        .withVector(vector)
+        .do()
+    } catch (error) {
+      logger.error(`Error embedding image ${filePath}:`, error)
+    }
+  }
+
+  private async removeImage(filePath: string): Promise<void> {
+    await this.client.batch
+      .objectsBatchDeleter()
+      .withClassName(IMAGE_CLASS)
+      .withWhere({ operator: 'Equal', path: ['path'], valueText: filePath })
+      .do()
+  }
+
   public static async getInstance(userDataPath: string): Promise<SearchDB> {
     if (!SearchDB.instance) {
-      const indexPath = path.join(userDataPath, 'alBERT_search-index.json')
+      const indexPath = path.join(userDataPath, 'alBERT_chunk-index.json')
+      const metaPath = path.join(userDataPath, 'alBERT_index-meta.json')
 
       // Dynamic import of weaviate-ts-embedded
       const weaviate = await import('weaviate-ts-embedded')
@@ -155,9 +281,11 @@ class SearchDB {
       const client = weaviate.default.client(options)
       await client.embedded.start()
 
-      SearchDB.instance = new SearchDB(client, indexPath)
-      await SearchDB.instance.initializeDB()
+      SearchDB.instance = new SearchDB(client, indexPath, metaPath)
+      // Loaded first, initializeDB() clears it when it has to drop outdated classes
       await SearchDB.instance.loadFileIndex()
+      await SearchDB.instance.initializeDB()
+      await SearchDB.instance.loadEmbeddingInfo()
     }
     return SearchDB.instance
   }
@@ -183,12 +311,26 @@ class SearchDB {
 
   private async initializeDB(): Promise<void> {
     try {
+      try {
+        await this.client.schema.classDeleter().withClassName(LEGACY_CLASS).do()
+        console.log('Removed legacy per-file schema.')
+      } catch {
+        // Legacy class was never created or is already gone
+      }
+      await this.dropWordTokenizedPaths()
       try {
         await this.client.schema.classCreator().withClass(schema).do()
         console.log('Schema created successfully.')
       } catch (err) {
         const error = err as Error
         console.log('Schema already exists or failed to create:', error.message)
+        await this.addMissingProperties()
+      }
+      try {
+        await this.client.schema.classCreator().withClass(imageSchema).do()
+        console.log('Image schema created successfully.')
+      } catch {
+        // Created by an earlier run
       }
     } catch (err) {
       const error = err as Error
@@ -197,6 +339,50 @@ class SearchDB {
     }
   }
 
+  /**
+   * Indexes created before `path` was a whole field split it into words, so exact path
+   * filters also matched other files. Their classes are dropped and every file indexed again.
+   */
+  private async dropWordTokenizedPaths(): Promise<void> {
+    let existing: WeaviateClass
+    try {
+      existing = await this.client.schema.classGetter().withClassName(CHUNK_CLASS).do()
+    } catch {
+      return // Not created yet
+    }
+    const pathProperty = existing.properties?.find((property) => property.name === 'path')
+    if (!pathProperty || pathProperty.tokenization === 'field') return
+
+    for (const className of [CHUNK_CLASS, IMAGE_CLASS]) {
+      try {
+        await this.client.schema.classDeleter().withClassName(className).do()
+      } catch {
+        // Image class was never created
+      }
+    }
+    this.fileIndex = {}
+    await this.persist()
+    console.log('Dropped chunks and images indexed with word-tokenized paths.')
+  }
+
+  /**
+   * Adds properties introduced after the chunk class was created, existing chunks keep them
+   * empty until their file is indexed again
+   */
+  private async addMissingProperties(): Promise<void> {
+    const existing = await this.client.schema.classGetter().withClassName(CHUNK_CLASS).do()
+    const names = new Set(existing.properties?.map((property) => property.name))
+    for (const property of schema.properties) {
+      if (names.has(property.name)) continue
+      await this.client.schema
+        .propertyCreator()
+        .withClassName(CHUNK_CLASS)
+        .withProperty(property)
+        .do()
+      console.log(`Added ${property.name} to the ${CHUNK_CLASS} schema.`)
+    }
+  }
+
   public async loadFileIndex(): Promise<void> {
     try {
       const indexContent = await fs.readFile(this.indexPath, 'utf-8')
@@ -208,6 +394,47 @@ class SearchDB {
     }
   }
 
+  private async loadEmbeddingInfo(): Promise<void> {
+    try {
+      this.embeddingInfo = JSON.parse(await fs.readFile(this.metaPath, 'utf-8'))
+    } catch {
+      this.embeddingInfo = null
+    }
+  }
+
+  /**
+   * Model and dimension the stored vectors were built with, null for indexes created
+   * before this was recorded
+   */
+  public getEmbeddingInfo(): IndexEmbeddingInfo | null {
+    return this.embeddingInfo
+  }
+
+  public async setEmbeddingInfo(info: IndexEmbeddingInfo): Promise<void> {
+    this.embeddingInfo = info
+    await fs.writeFile(this.metaPath, JSON.stringify(info, null, 2), 'utf-8')
+  }
+
+  /**
+   * Drops every stored chunk and image so the index can be rebuilt with another embedding
+   * model
+   */
+  public async resetIndex(info: IndexEmbeddingInfo): Promise<void> {
+    for (const classSchema of [schema, imageSchema]) {
+      try {
+        await this.client.schema.classDeleter().withClassName(classSchema.class).do()
+      } catch (error) {
+        logger.error(`Error dropping ${classSchema.class} class:`, error)
+      }
+      await this.client.schema.classCreator().withClass(classSchema).do()
+    }
+
+    this.fileIndex = {}
+    await this.persist()
+    await this.setEmbeddingInfo(info)
+    logger.info(`Search index reset for ${info.modelId} (${info.dimension}d)`)
+  }
+
   public async persist(): Promise<void> {
     try {
       await fs.writeFile(this.indexPath, JSON.stringify(this.fileIndex, null, 2), 'utf-8')
@@ -217,57 +444,139 @@ class SearchDB {
     }
   }
 
-  private async calculateFileHash(filePath: string): Promise<string> {
+  /**
+   * Content hash tagged with how the file was read, so enabling OCR on a root re-reads its
+   * PDFs and images, and enabling transcription its recordings, while everything else stays
+   * indexed
+   */
+  private async calculateFileHash(
+    filePath: string,
+    { ocr, transcribe }: ExtractOptions = {}
+  ): Promise<string> {
     const content = await fs.readFile(filePath)
-    return await sha256(content)
+    const ocrSuffix = ocr && supportsOcr(filePath) ? '-ocr' : ''
+    const transcriptSuffix = transcribe && supportsTranscription(filePath) ? '-asr' : ''
+    // Pictures indexed before they were embedded with CLIP are picked up again
+    const imageSuffix = isImageFile(filePath) ? '-clip' : ''
+    const suffixes = `${ocrSuffix}${transcriptSuffix}${imageSuffix}`
+    return `${await sha256(content)}-v${EXTRACTION_VERSION}${suffixes}`
   }
 
-  private async getContent(filePath: string): Promise<string> {
-    return await readContent(filePath)
+  private async getContent(filePath: string, options: ExtractOptions): Promise<ExtractedDocument> {
+    return await extractDocument(filePath, options)
   }
 
-  public async search(searchTerm: string): Promise<Array<{
-    text: string
-    metadata: {
-      path: string
-      created_at: number
-      modified_at: number
-      filetype: string
-      languages: string[]
-      links: string[]
-      owner: null
-      seen_at: number
+  /**
+   * Translates search filters into a Weaviate where clause on the chunk properties
+   */
+  private buildWhere(filters: SearchFilters): WhereFilter | undefined {
+    const operands: WhereFilter[] = []
+
+    if (filters.extensions?.length) {
+      operands.push({
+        operator: 'Or',
+        operands: filters.extensions.map((extension) => ({
+          operator: 'Equal',
+          path: ['extension'],
+          valueString: extension.replace(/^\./, '')
+        }))
+      })
     }
-  }>> {
+    if (filters.pathPrefix) {
+      // Matched against the whole path, so folders with spaces work. The separator keeps
+      // `~/Notes` from also matching `~/Notes Archive`.
+      const folder = expandHome(filters.pathPrefix)
+      operands.push({
+        operator: 'Like',
+        path: ['path'],
+        valueText: `${folder.endsWith(path.sep) ? folder : folder + path.sep}*`
+      })
+    }
+    if (filters.modifiedAfter !== undefined) {
+      operands.push({
+        operator: 'GreaterThanEqual',
+        path: ['lastModified'],
+        valueNumber: filters.modifiedAfter
+      })
+    }
+    if (filters.modifiedBefore !== undefined) {
+      operands.push({
+        operator: 'LessThanEqual',
+        path: ['lastModified'],
+        valueNumber: filters.modifiedBefore
+      })
+    }
+
+    if (operands.length === 0) return undefined
+    return operands.length === 1 ? operands[0] : { operator: 'And', operands }
+  }
+
+  /**
+   * Hybrid search over indexed chunks
+   * @param page Window of ranked hits to return, defaults to the first 10
+   */
+  public async search(
+    searchTerm: string,
+    filters: SearchFilters = {},
+    { limit = DEFAULT_PAGE_SIZE, offset = 0 }: SearchPage = {}
+  ): Promise<CommonSearchResult[]> {
     try {
       if (index !== -1) {
         badPorts.splice(index, 1)
       }
       // Replace global fetch with our monkeypatched fetch
       global.fetch = require('undici').fetch
-      const vector = await embed(searchTerm)
-      const result = await this.client.graphql
+      const query = this.client.graphql
         .get()
-        .withClassName('File')
-        .withHybrid({
+        .withClassName(CHUNK_CLASS)
+        .withLimit(limit)
+        .withOffset(offset)
+        .withFields(
+          'content path filename lastModified extension chunkIndex startOffset endOffset ' +
+            'title author language pageCount page section ocrConfidence startTime endTime'
+        )
+
+      if (searchTerm.trim()) {
+        const vector = (await embed(searchTerm)) as number[]
+        query.withHybrid({
           query: searchTerm,
           vector,
         })
-        .withLimit(10)
-        .withFields('content path lastModified extension')
-        .do()
+      } else {
+        // Filter-only queries list the most recently modified matches
+        query.withSort([{ path: ['lastModified'], order: 'desc' }])
+      }
+
+      const where = this.buildWhere(filters)
+      if (where) {
+        query.withWhere(where)
+      }
+      const result = await query.do()
 
-      return result.data.Get.File.map((hit: WeaviateDocument) => ({
+      return result.data.Get[CHUNK_CLASS].map((hit: WeaviateDocument) => ({
         text: hit.content,
         metadata: {
           path: hit.path,
+          title: hit.title || hit.filename,
+          author: hit.author || undefined,
+          pageCount: hit.pageCount || undefined,
+          ocrConfidence: hit.ocrConfidence ?? undefined,
           created_at: hit.lastModified / 1000,
           modified_at: hit.lastModified / 1000,
           filetype: hit.extension,
-          languages: [],
+          languages: hit.language ? [hit.language] : [],
           links: [],
           owner: null,
-          seen_at: Date.now() / 1000
+          seen_at: Date.now() / 1000,
+          location: {
+            chunkIndex: hit.chunkIndex,
+            start: hit.startOffset,
+            end: hit.endOffset,
+            page: hit.page || undefined,
+            section: hit.section || undefined,
+            startTime: hit.startTime ?? undefined,
+            endTime: hit.endTime ?? undefined
+          }
         }
       }))
     } catch (error) {
@@ -276,18 +585,85 @@ class SearchDB {
     }
   }
 
+  /**
+   * Pictures whose CLIP embedding is closest to a description, best first
+   */
+  public async searchImages(
+    searchTerm: string,
+    filters: SearchFilters = {},
+    limit: number = DEFAULT_IMAGE_LIMIT
+  ): Promise<ImageSearchResult[]> {
+    if (!searchTerm.trim()) return []
+
+    const vector = await embedImageQuery(searchTerm)
+    const query = this.client.graphql
+      .get()
+      .withClassName(IMAGE_CLASS)
+      .withNearVector({ vector, distance: MAX_IMAGE_DISTANCE })
+      .withLimit(limit)
+      .withFields('path filename extension lastModified _additional { distance }')
+
+    const where = this.buildWhere(filters)
+    if (where) {
+      query.withWhere(where)
+    }
+    const result = await query.do()
+
+    return result.data.Get[IMAGE_CLASS].map((hit: WeaviateImage) => ({
+      path: hit.path,
+      filename: hit.filename,
+      extension: hit.extension,
+      modified_at: hit.lastModified / 1000,
+      score: 1 - hit._additional.distance
+    }))
+  }
+
+  /**
+   * Text of an indexed file put back together from its stored chunks, for files too slow to
+   * read again such as transcribed recordings
+   * @returns null when the file has no chunks
+   */
+  public async getIndexedText(filePath: string): Promise<string | null> {
+    const result = await this.client.graphql
+      .get()
+      .withClassName(CHUNK_CLASS)
+      .withWhere({ operator: 'Equal', path: ['path'], valueText: filePath })
+      .withLimit(10000)
+      .withFields('content chunkIndex startOffset endOffset')
+      .do()
+
+    const chunks: WeaviateDocument[] = result.data.Get[CHUNK_CLASS]
+    if (chunks.length === 0) return null
+
+    // Consecutive chunks overlap, so each adds only what lies past the text covered so far
+    let text = ''
+    let covered = 0
+    for (const chunk of chunks.sort((a, b) => a.chunkIndex - b.chunkIndex)) {
+      text +=
+        chunk.startOffset >= covered
+          ? `${text ? '\n' : ''}${chunk.content}`
+          : chunk.content.slice(covered - chunk.startOffset)
+      covered = Math.max(covered, chunk.endOffset)
+    }
+    return text
+  }
+
   public async removeFile(filePath: string): Promise<void> {
     try {
       await this.client.batch
         .objectsBatchDeleter()
-        .withClassName('File')
+        .withClassName(CHUNK_CLASS)
         .withWhere({
           operator: 'Equal',
           path: ['path'],
-          valueString: filePath
+          valueText: filePath
         })
         .do()
+      if (isImageFile(filePath)) {
+        await this.removeImage(filePath)
+      }
 
+      // Every chunk carries its parent path, so one delete clears the whole file
       delete this.fileIndex[filePath]
       await this.persist()
       console.log(`Removed file from index: ${filePath}`)
@@ -299,21 +675,19 @@ class SearchDB {
   public async indexUrl(url: string, content: string, title: string): Promise<void> {
     try {
       const hash = await sha256(Buffer.from(content))
-      const vector = await embed(content)
+      if (this.fileIndex[url] === hash) {
+        return
+      }
+      if (this.fileIndex[url]) {
+        await this.removeFile(url)
+      }
 
-      await this.client.data
-        .creator()
-        .withClassName('File')
-        .withProperties({
-          path: url,
-          content: content,
-          filename: title,
-          extension: 'md',
-          lastModified: Date.now(),
-          hash: hash
-        })
-        .withVector(vector)
-        .do()
+      await this.storeChunks(url, content, {
+        filename: title,
+        extension: 'md',
+        lastModified: Date.now(),
+        hash: hash
+      })
 
       this.fileIndex[url] = hash
       await this.persist()
@@ -325,6 +699,7 @@ class SearchDB {
 
   public async shutdown(): Promise<void> {
     try {
+      await Promise.all(Array.from(this.watchers.keys()).map((id) => this.stopFileWatcher(id)))
       await this.client.embedded.stop()
       console.log('Weaviate embedded server stopped successfully.')
     } catch (error) {
@@ -332,48 +707,115 @@ class SearchDB {
     }
   }
 
-  public async startIndexing(
-    dirPath: string,
-    progressCallback?: (progress: number, status: string) => void
-  ): Promise<string[]> {
-    try {
-      const result = await this.indexDirectory(dirPath, progressCallback)
-
-      if (progressCallback) {
-        progressCallback(100, 'Indexing complete')
-      }
-
-      return result
-    } catch (error) {
-      console.error('Error during indexing:', error)
-      if (progressCallback) {
-        progressCallback(0, 'Indexing failed')
-      }
-      throw error
-    }
+  public getIndexedPaths(): string[] {
+    return Object.keys(this.fileIndex)
   }
 
-  public async setupFileWatcher(dirPath: string): Promise<void> {
+  /**
+   * Watches a root for changes and forwards matching file events, without indexing them
+   * itself so callers can debounce and queue the work
+   */
+  public async setupFileWatcher(
+    root: IndexRoot,
+    onEvent: (event: FileEvent) => void
+  ): Promise<void> {
+    await this.stopFileWatcher(root.id)
+
     const chokidar = await import('chokidar')
-    const watcher = chokidar.default.watch(dirPath, {
-      ignored: /[/\\]\./,
+    const watcher = chokidar.default.watch(root.path, {
+      ignored: (watchedPath, stats) => {
+        if (watchedPath === root.path || !stats) return false
+        if (stats.isDirectory()) return isDirectoryExcluded(root, watchedPath)
+        return !isPathIncluded(root, watchedPath, stats.size)
+      },
       persistent: true,
-      ignoreInitial: true
+      ignoreInitial: true,
+      awaitWriteFinish: { stabilityThreshold: 500 }
     })
 
     watcher
-      .on('add', async (path) => {
-        await this.indexFile(path)
-        await this.persist()
-      })
-      .on('change', async (path) => {
-        await this.indexFile(path)
-        await this.persist()
-      })
-      .on('unlink', async (path) => {
-        await this.removeFile(path)
-        await this.persist()
-      })
+      .on('add', (filePath) => onEvent({ type: 'add', path: filePath }))
+      .on('change', (filePath) => onEvent({ type: 'change', path: filePath }))
+      .on('unlink', (filePath) => onEvent({ type: 'unlink', path: filePath }))
+      .on('error', (error) => logger.error(`File watcher error in ${root.path}:`, error))
+
+    this.watchers.set(root.id, watcher)
+  }
+
+  public async stopFileWatcher(rootId: string): Promise<void> {
+    const watcher = this.watchers.get(rootId)
+    if (watcher) {
+      this.watchers.delete(rootId)
+      await watcher.close()
+    }
+  }
+
+  public getIndexedHash(filePath: string): string | undefined {
+    return this.fileIndex[filePath]
+  }
+
+  public async hashFile(filePath: string, options: ExtractOptions = {}): Promise<string> {
+    return await this.calculateFileHash(filePath, options)
+  }
+
+  /**
+   * Re-points every chunk of a moved file at its new path without re-embedding it
+   * @param options How to read the file when it was not indexed before
+   */
+  public async moveFile(
+    fromPath: string,
+    toPath: string,
+    options: ExtractOptions = {}
+  ): Promise<void> {
+    const hash = this.fileIndex[fromPath]
+    if (!hash) {
+      await this.indexFile(toPath, options)
+      return
+    }
+
+    const chunkCount = await this.repointObjects(CHUNK_CLASS, fromPath, toPath)
+    if (isImageFile(fromPath)) {
+      await this.repointObjects(IMAGE_CLASS, fromPath, toPath)
+    }
+
+    delete this.fileIndex[fromPath]
+    this.fileIndex[toPath] = hash
+    await this.persist()
+    logger.info(`Moved ${chunkCount} chunks from ${fromPath} to ${toPath}`)
+  }
+
+  /**
+   * Updates the path and name of every object of a class belonging to a moved file
+   * @returns Number of objects updated
+   */
+  private async repointObjects(
+    className: string,
+    fromPath: string,
+    toPath: string
+  ): Promise<number> {
+    const result = await this.client.graphql
+      .get()
+      .withClassName(className)
+      .withWhere({ operator: 'Equal', path: ['path'], valueText: fromPath })
+      .withLimit(10000)
+      .withFields('_additional { id }')
+      .do()
+
+    const parsedPath = path.parse(toPath)
+    const objects: Array<{ _additional: { id: string } }> = result.data.Get[className]
+    for (const object of objects) {
+      await this.client.data
+        .merger()
+        .withClassName(className)
+        .withId(object._additional.id)
+        .withProperties({
+          path: toPath,
+          filename: parsedPath.name,
+          extension: parsedPath.ext.slice(1)
+        })
+        .do()
+    }
+    return objects.length
   }
 }
 
@@ -1,44 +1,23 @@
-import { Worker } from 'worker_threads'
-import path, { join } from 'path'
+import { join } from 'path'
 import { logger } from './utils/logger'
+import { WorkerClient } from './worker-client'
+import { policyFetch } from './network-policy'
+import type { EmbeddingModel } from './types'
 
-let worker: Worker | null = null
-let reranker: Worker | null = null
+const worker = new WorkerClient('Embeddings', join(__dirname, 'vectorizer.js'))
+const reranker = new WorkerClient('Reranker', join(__dirname, 'reranker.js'))
+const clip = new WorkerClient('CLIP', join(__dirname, 'clip.js'))
 
-function initializeWorker() {
-  if (!worker) {
-    const workerPath = join(__dirname, 'vectorizer.js')
-    worker = new Worker(workerPath)
+// Set from settings at startup, see activateModels() in models.ts
+let embeddingModel: EmbeddingModel | null = null
+let rerankerModel: string | null = null
 
-    worker.on('error', (error) => {
-      logger.error('Embeddings worker error:', error)
-    })
-
-    worker.on('exit', (code) => {
-      if (code !== 0) {
-        logger.error(`Embeddings worker stopped with exit code ${code}`)
-      }
-      worker = null
-    })
-  }
+export const setEmbeddingModel = (model: EmbeddingModel): void => {
+  embeddingModel = model
 }
 
-function initializeReranker() {
-  if (!reranker) {
-    const workerPath = join(__dirname, 'reranker.js')
-    reranker = new Worker(workerPath)
-
-    reranker.on('error', (error) => {
-      logger.error('Reranker worker error:', error)
-    })
-
-    reranker.on('exit', (code) => {
-      if (code !== 0) {
-        logger.error(`Reranker worker stopped with exit code ${code}`)
-      }
-      reranker = null
-    })
-  }
+export const setRerankerModel = (model: string): void => {
+  rerankerModel = model
 }
 
 export const embed = async (
@@ -49,11 +28,6 @@ export const embed = async (
     if (text.length === 0) {
       return []
     }
-    initializeWorker()
-
-    if (!worker) {
-      throw new Error('Embeddings worker not initialized')
-    }
 
     if (!Array.isArray(text)) {
       return processBatch([text]).then((results) => results[0])
@@ -76,111 +50,115 @@ export const embed = async (
   }
 }
 
-interface RankResult {
-  corpus_id: number
+export interface RankResult {
+  corpus_id: number // Index of the document in the array passed to rerank()
   score: number
   text?: string
 }
 
+export interface RankOptions {
+  top_k?: number
+  return_documents?: boolean
+}
+
+/**
+ * Scores documents against a query with the cross-encoder, best first.
+ * Empty documents are skipped and never appear in the results.
+ */
 export const rerank = async (
   query: string,
   documents: string[],
-  options: { top_k?: number; return_documents?: boolean } = {}
+  options: RankOptions = {}
 ): Promise<RankResult[]> => {
   try {
     if (documents.length === 0 || query.length === 0) {
       return []
     }
-    documents = documents.filter((doc) => doc.length > 0)
-    initializeReranker()
-
-    if (!reranker) {
-      throw new Error('Reranker worker not initialized')
+    // Keep the original positions so corpus_id refers to the caller's array
+    const nonEmpty = documents
+      .map((text, index) => ({ text, index }))
+      .filter((doc) => doc.text.length > 0)
+    if (nonEmpty.length === 0) {
+      return []
     }
 
-    return rerankStrings(query, documents, options)
+    const results = await rerankStrings(
+      query,
+      nonEmpty.map((doc) => doc.text),
+      options
+    )
+    return results.map((result) => ({ ...result, corpus_id: nonEmpty[result.corpus_id].index }))
   } catch (error) {
     logger.error('Reranking error:', error)
     throw error
   }
 }
 
-const rerankStrings = (
+const rerankStrings = async (
   query: string,
   documents: string[],
-  options: { top_k?: number; return_documents?: boolean } = {}
+  options: RankOptions = {}
 ): Promise<RankResult[]> => {
-  return new Promise((resolve, reject) => {
-    reranker?.postMessage({
-      type: 'rerank',
-      text: JSON.stringify({
-        query,
-        documents,
-        options
-      })
-    })
-
-    const messageHandler = (message: any) => {
-      if (message.type === 'result') {
-        cleanup()
-        resolve(message.reranked)
-      }
-    }
-
-    const errorHandler = (error: Error) => {
-      cleanup()
-      reject(error)
-    }
-
-    const cleanup = () => {
-      reranker?.removeListener('message', messageHandler)
-      reranker?.removeListener('error', errorHandler)
-    }
-
-    reranker?.on('message', messageHandler)
-    reranker?.on('error', errorHandler)
+  const { reranked } = await reranker.request<{ reranked: RankResult[] }>('rerank', {
+    text: JSON.stringify({
+      query,
+      documents,
+      options
+    }),
+    model: rerankerModel
   })
+  return reranked
 }
 
-const processBatch = (batch: string[]): Promise<number[][]> => {
-  return new Promise((resolve, reject) => {
-    worker?.postMessage({
-      type: 'embed',
-      text: batch
-    })
-
-    const messageHandler = (message: any) => {
-      if (message.type === 'result') {
-        cleanup()
-        resolve(message.embeddings)
-      } else if (message.type === 'error') {
-        cleanup()
-        reject(new Error(message.error))
-      }
-    }
+const processBatch = async (batch: string[]): Promise<number[][]> => {
+  if (embeddingModel?.provider === 'openai-compatible') {
+    return embedRemote(embeddingModel, batch)
+  }
+  const { embeddings } = await worker.request<{ embeddings: number[][] }>('embed', {
+    text: batch,
+    model: embeddingModel?.model
+  })
+  return embeddings
+}
 
-    const errorHandler = (error: Error) => {
-      cleanup()
-      reject(error)
-    }
+/**
+ * Embeds a batch through an OpenAI-compatible `/embeddings` endpoint such as Ollama
+ */
+const embedRemote = async (model: EmbeddingModel, batch: string[]): Promise<number[][]> => {
+  const response = await policyFetch('embeddings', `${model.baseUrl}/embeddings`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: model.model, input: batch })
+  })
+  if (!response.ok) {
+    throw new Error(`Embedding endpoint ${model.baseUrl} returned ${response.status}`)
+  }
 
-    const cleanup = () => {
-      worker?.removeListener('message', messageHandler)
-      worker?.removeListener('error', errorHandler)
-    }
+  const { data } = (await response.json()) as { data: { index: number; embedding: number[] }[] }
+  return data.sort((a, b) => a.index - b.index).map((item) => item.embedding)
+}
 
-    worker?.on('message', messageHandler)
-    worker?.on('error', errorHandler)
+/**
+ * Embeds an image file with CLIP, in the space of embedImageQuery() rather than embed()
+ */
+export const embedImage = async (filePath: string): Promise<number[]> => {
+  const { embedding } = await clip.request<{ embedding: number[] }>('embedImage', {
+    path: filePath
   })
+  return embedding
 }
 
-export const cleanup = () => {
-  if (worker) {
-    worker.terminate()
-    worker = null
-  }
-  if (reranker) {
-    reranker.terminate()
-    reranker = null
-  }
+/**
+ * Embeds a description of a picture, e.g. "whiteboard diagram of the auth flow", to search
+ * the vectors of embedImage()
+ */
+export const embedImageQuery = async (text: string): Promise<number[]> => {
+  const { embedding } = await clip.request<{ embedding: number[] }>('embedText', { text })
+  return embedding
+}
+
+export const cleanup = (): void => {
+  worker.terminate()
+  reranker.terminate()
+  clip.terminate()
 }
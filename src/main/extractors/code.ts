@@ -0,0 +1,21 @@
+import { readText, type ContentExtractor } from './extractor'
+
+// Source and config files, indexed as they are so identifiers stay searchable
+const CODE_EXTENSIONS = [
+  '.js .jsx .mjs .cjs .ts .tsx .mts .cts .py .rb .php .pl .lua .r',
+  '.java .kt .kts .scala .groovy .gradle .c .h .cc .cpp .cxx .hpp .hh .m .mm',
+  '.cs .fs .vb .go .rs .swift .dart .zig .ex .exs .erl .hs .clj .elm .ml',
+  '.sh .bash .zsh .fish .ps1 .bat .sql .graphql .proto',
+  '.css .scss .sass .less .vue .svelte .astro',
+  '.xml .yaml .yml .toml .ini .cfg .conf .env .properties .tex .bib .tf .nix'
+].flatMap((line) => line.split(' '))
+
+export const codeExtractor: ContentExtractor = {
+  id: 'code',
+  extensions: CODE_EXTENSIONS,
+  mimeTypes: ['text/x-script'], // Sniffed from a #! line
+
+  async extract(filePath) {
+    return { text: await readText(filePath), metadata: {} }
+  }
+}
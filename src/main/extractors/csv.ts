@@ -0,0 +1,73 @@
+import path from 'path'
+import { readText, type ContentExtractor } from './extractor'
+
+/**
+ * Splits delimited text into rows, honouring quoted fields with embedded delimiters,
+ * doubled quotes and line breaks
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+}
+
+/**
+ * CSV and TSV. Every row becomes one line labelled with the column headers, so a chunk
+ * still says what its values mean without the header row.
+ */
+export const csvExtractor: ContentExtractor = {
+  id: 'csv',
+  extensions: ['.csv', '.tsv', '.tab'],
+  mimeTypes: ['text/csv', 'text/tab-separated-values'],
+
+  async extract(filePath) {
+    const delimiter = path.extname(filePath).toLowerCase() === '.csv' ? ',' : '\t'
+    const [header = [], ...rows] = parseDelimited(await readText(filePath), delimiter)
+    const columns = header.map((name, index) => name.trim() || `Column ${index + 1}`)
+
+    const lines = rows.map((cells) =>
+      cells
+        .map((cell, index) => [columns[index] ?? `Column ${index + 1}`, cell.trim()])
+        .filter(([, value]) => value !== '')
+        .map(([column, value]) => `${column}: ${value}`)
+        .join('; ')
+    )
+    return {
+      text: [columns.join('; '), ...lines].join('\n'),
+      metadata: {}
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { compactMetadata, decodeBytes, type ContentExtractor } from './extractor'
+import { htmlToDocument } from './html'
+
+interface MimePart {
+  headers: Map<string, string>
+  body: string
+}
+
+interface ParsedMessage {
+  headers: Map<string, string>
+  text: string
+}
+
+const SHOWN_HEADERS = ['subject', 'from', 'to', 'cc', 'date']
+
+// =?utf-8?B?...?= and =?iso-8859-1?Q?...?= words in header values
+const decodeEncodedWords = (value: string): string =>
+  value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, data) =>
+      encoding.toLowerCase() === 'b'
+        ? decodeBytes(Buffer.from(data, 'base64'), charset)
+        : decodeBytes(decodeQuotedPrintable(data.replace(/_/g, ' ')), charset)
+    )
+
+function decodeQuotedPrintable(text: string): Uint8Array {
+  const bytes: number[] = []
+  const input = text.replace(/=\r?\n/g, '')
+  for (let i = 0; i < input.length; i++) {
+    const hex = input.slice(i + 1, i + 3)
+    if (input[i] === '=' && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16))
+      i += 2
+    } else {
+      bytes.push(...Buffer.from(input[i], 'latin1'))
+    }
+  }
+  return Uint8Array.from(bytes)
+}
+
+function splitPart(raw: string): MimePart {
+  const separator = raw.search(/\r?\n\r?\n/)
+  const head = separator === -1 ? raw : raw.slice(0, separator)
+  const body = separator === -1 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '')
+
+  const headers = new Map<string, string>()
+  // Folded header lines continue with whitespace
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    // Raw 8-bit header values are taken as UTF-8
+    const value = decodeBytes(Buffer.from(line.slice(colon + 1).trim(), 'latin1'))
+    if (!headers.has(name)) headers.set(name, decodeEncodedWords(value))
+  }
+  return { headers, body }
+}
+
+const headerParam = (value: string | undefined, param: string): string | undefined =>
+  value?.match(new RegExp(`${param}\\*?=\\s*"?([^";]+)"?`, 'i'))?.[1]
+
+function decodeBody({ headers, body }: MimePart): string {
+  const charset = headerParam(headers.get('content-type'), 'charset') ?? 'utf-8'
+  switch (headers.get('content-transfer-encoding')?.toLowerCase()) {
+    case 'base64':
+      return decodeBytes(Buffer.from(body.replace(/\s+/g, ''), 'base64'), charset)
+    case 'quoted-printable':
+      return decodeBytes(decodeQuotedPrintable(body), charset)
+    default:
+      return decodeBytes(Buffer.from(body, 'latin1'), charset)
+  }
+}
+
+/**
+ * Walks the MIME tree, preferring plain text bodies over HTML and listing attachment names
+ */
+function parseMessage(raw: string): ParsedMessage {
+  const message = splitPart(raw)
+  const plain: string[] = []
+  const html: string[] = []
+  const attachments: string[] = []
+
+  const visit = (part: MimePart): void => {
+    const contentType = part.headers.get('content-type')?.toLowerCase() ?? 'text/plain'
+    const disposition = part.headers.get('content-disposition')
+    const filename = headerParam(disposition, 'filename') ?? headerParam(contentType, 'name')
+
+    if (contentType.startsWith('multipart/')) {
+      const boundary = headerParam(part.headers.get('content-type'), 'boundary')
+      if (!boundary) return
+      const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      part.body
+        .split(new RegExp(`^--${escaped}(?:--)?[ \\t]*$`, 'm'))
+        .slice(1, -1)
+        .forEach((section) => visit(splitPart(section.replace(/^\r?\n/, ''))))
+    } else if (disposition?.toLowerCase().startsWith('attachment') || filename) {
+      attachments.push(filename ?? 'unnamed')
+    } else if (contentType.startsWith('text/html')) {
+      html.push(htmlToDocument(decodeBody(part)).text)
+    } else if (contentType.startsWith('text/')) {
+      plain.push(decodeBody(part))
+    } else if (contentType.startsWith('message/rfc822')) {
+      plain.push(parseMessage(part.body).text)
+    }
+  }
+  visit(message)
+
+  const shown = SHOWN_HEADERS.flatMap((name) => {
+    const value = message.headers.get(name)
+    return value ? [`${name[0].toUpperCase()}${name.slice(1)}: ${value}`] : []
+  })
+  const body = (plain.length > 0 ? plain : html).join('\n\n').trim()
+  const text = [
+    shown.join('\n'),
+    body,
+    attachments.length > 0 ? `Attachments: ${attachments.join(', ')}` : ''
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+
+  return { headers: message.headers, text }
+}
+
+/**
+ * Single messages (.eml) and mailboxes (.mbox). Headers, the readable body and attachment
+ * names are indexed, attachment contents are not.
+ */
+export const emailExtractor: ContentExtractor = {
+  id: 'email',
+  extensions: ['.eml', '.mbox'],
+  mimeTypes: ['message/rfc822', 'application/mbox'],
+
+  async extract(filePath) {
+    // One character per byte, bodies are decoded with their own charset
+    const raw = await fs.readFile(filePath, 'latin1')
+    const isMailbox = path.extname(filePath).toLowerCase() === '.mbox' || /^From \S+/.test(raw)
+
+    // Messages in a mailbox start with a "From " line, quoted ones inside bodies with ">From "
+    const messages = (isMailbox ? raw.split(/^From \S+.*$/m) : [raw])
+      .map((message) => message.replace(/^>(>*From )/gm, '$1').trim())
+      .filter(Boolean)
+      .map(parseMessage)
+
+    const [first] = messages
+    return {
+      text: messages.map((message) => message.text).join('\n\n---\n\n'),
+      metadata: compactMetadata({
+        title: messages.length === 1 ? first.headers.get('subject') : undefined,
+        author: messages.length === 1 ? first.headers.get('from') : undefined,
+        language: first?.headers.get('content-language')
+      })
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import path from 'path'
+import { compactMetadata, type ContentExtractor } from './extractor'
+import { htmlToDocument } from './html'
+import { elements, firstText, parseXml } from './xml'
+import { readZipEntries } from './zip'
+
+const CONTENT_PATTERN = /\.(xml|opf|x?html?)$/i
+
+/**
+ * EPUB books: the chapters in reading order as Markdown, with title, author and language
+ * from the package document
+ */
+export const epubExtractor: ContentExtractor = {
+  id: 'epub',
+  extensions: ['.epub'],
+  mimeTypes: ['application/epub+zip'],
+
+  async extract(filePath) {
+    const entries = await readZipEntries(filePath, (name) => CONTENT_PATTERN.test(name))
+    const container = entries.get('META-INF/container.xml')
+    const packagePath = container
+      ? elements(parseXml(container.toString('utf-8')), 'rootfile')[0]?.getAttribute('full-path')
+      : undefined
+    const packageFile = packagePath ? entries.get(packagePath) : undefined
+    if (!packagePath || !packageFile) {
+      throw new Error(`No package document found in ${filePath}`)
+    }
+
+    const opf = parseXml(packageFile.toString('utf-8'))
+    const baseDir = path.posix.dirname(packagePath)
+    const manifest = new Map(
+      elements(opf, 'item').map((item) => [item.getAttribute('id'), item.getAttribute('href')])
+    )
+    const chapters = elements(opf, 'itemref')
+      .map((itemref) => manifest.get(itemref.getAttribute('idref')))
+      .filter((href): href is string => !!href)
+      .map((href) => entries.get(path.posix.join(baseDir, decodeURIComponent(href))))
+      .filter((chapter): chapter is Buffer => chapter !== undefined)
+      .map((chapter) => htmlToDocument(chapter.toString('utf-8')).text)
+
+    return {
+      text: chapters.filter(Boolean).join('\n\n'),
+      metadata: compactMetadata({
+        title: firstText(opf, 'title'),
+        author: firstText(opf, 'creator'),
+        language: firstText(opf, 'language')
+      })
+    }
+  }
+}
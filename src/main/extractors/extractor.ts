@@ -0,0 +1,73 @@
+import fs from 'fs/promises'
+
+export interface DocumentMetadata {
+  title?: string
+  author?: string
+  pageCount?: number
+  language?: string // As declared by the document, e.g. en or de-CH
+  ocrConfidence?: number // Mean word confidence between 0 and 1 when text was recognized
+}
+
+export interface CellRange {
+  firstRow: number
+  lastRow: number
+  firstColumn: number // 1 for column A
+  lastColumn: number
+}
+
+/**
+ * Where a part of the extracted text came from. A section starts at `start` and runs until
+ * the next one.
+ */
+export interface DocumentSection {
+  start: number // Offset in the extracted text
+  kind: 'page' | 'slide' | 'sheet' | 'heading' | 'time'
+  page?: number // Page or slide number, starting at 1
+  title?: string // Sheet name or heading path
+  cells?: CellRange // Rows and columns of a sheet the section holds
+  time?: number // Seconds into a recording at which a transcript segment starts
+  endTime?: number // Seconds into the recording at which it ends
+}
+
+export interface ExtractedDocument {
+  text: string
+  metadata: DocumentMetadata
+  sections?: DocumentSection[] // In text order, missing for formats without pages or headings
+}
+
+export interface ExtractOptions {
+  ocr?: boolean // Recognize text in images and scanned PDF pages, set per index root
+  transcribe?: boolean // Transcribe audio and video recordings, set per index root
+}
+
+export interface ContentExtractor {
+  id: string
+  extensions: string[] // Lower case, with the leading dot
+  mimeTypes: string[] // Matched against the type sniffed from files with unknown extensions
+  extract: (filePath: string, options: ExtractOptions) => Promise<ExtractedDocument>
+}
+
+/**
+ * Reads a text file as UTF-8 without its byte order mark
+ */
+export async function readText(filePath: string): Promise<string> {
+  const text = await fs.readFile(filePath, 'utf-8')
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+}
+
+/**
+ * Decodes bytes in a named charset, falling back to UTF-8 for labels the runtime does not know
+ */
+export function decodeBytes(bytes: Uint8Array, charset: string = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+// Drops empty fields so metadata only carries what the document actually declares
+export const compactMetadata = (metadata: DocumentMetadata): DocumentMetadata =>
+  Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined && value !== '')
+  )
@@ -0,0 +1,49 @@
+import TurndownService from 'turndown'
+import { parseHTML } from 'linkedom'
+import {
+  compactMetadata,
+  readText,
+  type ContentExtractor,
+  type ExtractedDocument
+} from './extractor'
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  emDelimiter: '_'
+})
+
+/**
+ * Converts an HTML document to Markdown, taking title, author and language from the head
+ */
+export function htmlToDocument(html: string): ExtractedDocument {
+  const { document } = parseHTML(html)
+  document.querySelectorAll('script, style, noscript, svg, template').forEach((el) => el.remove())
+
+  const meta = (name: string): string | undefined =>
+    document.querySelector(`meta[name="${name}"]`)?.getAttribute('content')?.trim()
+  const body = document.body?.innerHTML ?? document.documentElement?.innerHTML ?? html
+
+  return {
+    text: turndown.turndown(body).trim(),
+    metadata: compactMetadata({
+      title:
+        document.querySelector('title')?.textContent?.trim() ||
+        document.querySelector('h1')?.textContent?.trim(),
+      author: meta('author') ?? meta('dc.creator'),
+      language:
+        document.documentElement?.getAttribute('lang')?.trim() ||
+        document.documentElement?.getAttribute('xml:lang')?.trim()
+    })
+  }
+}
+
+export const htmlExtractor: ContentExtractor = {
+  id: 'html',
+  extensions: ['.html', '.htm', '.xhtml'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+
+  async extract(filePath) {
+    return htmlToDocument(await readText(filePath))
+  }
+}
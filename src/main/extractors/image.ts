@@ -0,0 +1,30 @@
+import { meanConfidence, recognizeImage } from '../ocr'
+import { compactMetadata, type ContentExtractor } from './extractor'
+import { SectionedText } from './sections'
+
+/**
+ * Scans and photos of text, read through OCR when the index root enables it. Without OCR
+ * they are indexed by name only.
+ */
+export const imageExtractor: ContentExtractor = {
+  id: 'image',
+  extensions: ['.png', '.jpg', '.jpeg', '.tif', '.tiff'],
+  mimeTypes: ['image/png', 'image/jpeg', 'image/tiff'],
+
+  async extract(filePath, { ocr }) {
+    if (!ocr) return { text: '', metadata: {} }
+
+    const pages = await recognizeImage(filePath)
+    const text = new SectionedText()
+    // Only multi-page TIFFs are worth labelling by page
+    pages.forEach((page) =>
+      text.append(page.text, pages.length > 1 ? { kind: 'page', page: page.page } : undefined)
+    )
+    return text.toDocument(
+      compactMetadata({
+        pageCount: pages.length > 1 ? pages.length : undefined,
+        ocrConfidence: meanConfidence(pages)
+      })
+    )
+  }
+}
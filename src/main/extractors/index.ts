@@ -0,0 +1,169 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { logger } from '../utils/logger'
+import type { ContentExtractor, ExtractedDocument, ExtractOptions } from './extractor'
+import { codeExtractor } from './code'
+import { csvExtractor } from './csv'
+import { emailExtractor } from './email'
+import { epubExtractor } from './epub'
+import { htmlExtractor } from './html'
+import { imageExtractor } from './image'
+import { mediaExtractor } from './media'
+import { officeExtractor } from './office'
+import { ooxmlExtractor } from './ooxml'
+import { pdfExtractor } from './pdf'
+import { rtfExtractor } from './rtf'
+import { textExtractor } from './text'
+
+export type {
+  ContentExtractor,
+  DocumentMetadata,
+  DocumentSection,
+  ExtractedDocument,
+  ExtractOptions
+} from './extractor'
+export { locateSections, type SectionLocation } from './sections'
+
+const SNIFF_LENGTH = 4096
+
+const byExtension = new Map<string, ContentExtractor>()
+const byMimeType = new Map<string, ContentExtractor>()
+
+/**
+ * Adds an extractor, replacing whichever was registered before for the same extensions and
+ * MIME types
+ */
+export function registerExtractor(extractor: ContentExtractor): void {
+  extractor.extensions.forEach((extension) => byExtension.set(extension, extractor))
+  extractor.mimeTypes.forEach((mimeType) => byMimeType.set(mimeType, extractor))
+}
+
+const BUILT_IN_EXTRACTORS = [
+  textExtractor,
+  codeExtractor,
+  csvExtractor,
+  htmlExtractor,
+  pdfExtractor,
+  ooxmlExtractor,
+  officeExtractor,
+  epubExtractor,
+  emailExtractor,
+  rtfExtractor,
+  imageExtractor,
+  mediaExtractor
+]
+BUILT_IN_EXTRACTORS.forEach(registerExtractor)
+
+/**
+ * Guesses a MIME type from the first bytes of a file, for files whose extension is missing
+ * or unknown. Zip based formats are told apart by the names of their first entries.
+ */
+export function sniffMimeType(head: Buffer): string | null {
+  const latin1 = head.toString('latin1')
+
+  if (latin1.startsWith('%PDF-')) return 'application/pdf'
+  if (latin1.startsWith('{\\rtf')) return 'application/rtf'
+  if (latin1.startsWith('\x89PNG\r\n\x1a\n')) return 'image/png'
+  if (latin1.startsWith('\xff\xd8\xff')) return 'image/jpeg'
+  if (latin1.startsWith('II*\x00') || latin1.startsWith('MM\x00*')) return 'image/tiff'
+  if (latin1.startsWith('RIFF') && latin1.slice(8, 12) === 'WAVE') return 'audio/wav'
+  if (latin1.startsWith('ID3') || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) {
+    return 'audio/mpeg'
+  }
+  if (latin1.slice(4, 8) === 'ftyp') {
+    // MP4 audio and video share their container with HEIC photos and QuickTime movies,
+    // only the brand tells them apart
+    const brand = latin1.slice(8, 12)
+    if (brand === 'M4A ') return 'audio/mp4'
+    if (['isom', 'iso2', 'mp41', 'mp42', 'avc1', 'M4V '].includes(brand)) return 'video/mp4'
+    return null
+  }
+  if (latin1.startsWith('PK\x03\x04') && head.length >= 30) {
+    // EPUB and OpenDocument store their type uncompressed as the first entry
+    const nameLength = head.readUInt16LE(26)
+    const dataStart = 30 + nameLength + head.readUInt16LE(28)
+    if (latin1.slice(30, 30 + nameLength) === 'mimetype') {
+      return latin1.slice(dataStart, dataStart + head.readUInt32LE(18)).trim() || null
+    }
+    if (latin1.includes('word/')) {
+      return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    }
+    if (latin1.includes('xl/')) {
+      return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    }
+    if (latin1.includes('ppt/')) {
+      return 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    }
+    return null
+  }
+  // Anything else with NUL bytes is binary we cannot read
+  if (head.includes(0)) return null
+
+  const text = head
+    .toString('utf-8')
+    .replace(/^\uFEFF/, '')
+    .trimStart()
+  if (/^(<!doctype html|<html)/i.test(text)) return 'text/html'
+  if (text.startsWith('#!')) return 'text/x-script'
+  if (/^From \S+/.test(text)) return 'application/mbox'
+  if (
+    /^[\w-]+:/.test(text) &&
+    /^from:/im.test(text) &&
+    /^(subject|date|message-id|received):/im.test(text)
+  ) {
+    return 'message/rfc822'
+  }
+  return 'text/plain'
+}
+
+async function readHead(filePath: string): Promise<Buffer> {
+  const file = await fs.open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(SNIFF_LENGTH)
+    const { bytesRead } = await file.read(buffer, 0, SNIFF_LENGTH, 0)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await file.close()
+  }
+}
+
+/**
+ * Picks the extractor for a file by its extension, falling back to its sniffed MIME type
+ */
+export async function getExtractor(filePath: string): Promise<ContentExtractor | null> {
+  const extractor = byExtension.get(path.extname(filePath).toLowerCase())
+  if (extractor) return extractor
+
+  const mimeType = sniffMimeType(await readHead(filePath))
+  return (mimeType && byMimeType.get(mimeType)) || null
+}
+
+/**
+ * Whether turning OCR on or off changes what is read from a file, judged by its extension
+ */
+export function supportsOcr(filePath: string): boolean {
+  const extractor = byExtension.get(path.extname(filePath).toLowerCase())
+  return extractor === pdfExtractor || extractor === imageExtractor
+}
+
+/**
+ * Whether turning transcription on or off changes what is read from a file
+ */
+export function supportsTranscription(filePath: string): boolean {
+  return byExtension.get(path.extname(filePath).toLowerCase()) === mediaExtractor
+}
+
+/**
+ * Text and metadata of a local file. Files no extractor understands come back empty.
+ */
+export async function extractDocument(
+  filePath: string,
+  options: ExtractOptions = {}
+): Promise<ExtractedDocument> {
+  const extractor = await getExtractor(filePath)
+  if (!extractor) {
+    logger.warn(`Unsupported file type: ${filePath}`)
+    return { text: '', metadata: {} }
+  }
+  return extractor.extract(filePath, options)
+}
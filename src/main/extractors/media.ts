@@ -0,0 +1,24 @@
+import { transcribe } from '../transcription'
+import type { ContentExtractor } from './extractor'
+import { SectionedText } from './sections'
+
+/**
+ * Recordings as a transcript, one line per segment so every chunk knows when its words
+ * were said. Only transcribed when the index root enables it, otherwise they are indexed by
+ * name only.
+ */
+export const mediaExtractor: ContentExtractor = {
+  id: 'media',
+  extensions: ['.mp3', '.wav', '.m4a', '.mp4'],
+  mimeTypes: ['audio/mpeg', 'audio/wav', 'audio/mp4', 'video/mp4'],
+
+  async extract(filePath, options) {
+    if (!options.transcribe) return { text: '', metadata: {} }
+
+    const text = new SectionedText()
+    for (const segment of await transcribe(filePath)) {
+      text.append(segment.text, { kind: 'time', time: segment.start, endTime: segment.end }, '\n')
+    }
+    return text.toDocument({})
+  }
+}
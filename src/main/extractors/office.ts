@@ -0,0 +1,35 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { OfficeParserConfig, parseOfficeAsync } from 'officeparser'
+import type { ContentExtractor } from './extractor'
+
+const OPENDOCUMENT_EXTENSIONS = ['.odt', '.ods', '.odp']
+
+const config: OfficeParserConfig = {
+  newlineDelimiter: '\n',
+  ignoreNotes: true
+}
+
+/**
+ * OpenDocument text, spreadsheets and presentations through officeparser
+ */
+export const officeExtractor: ContentExtractor = {
+  id: 'office',
+  extensions: OPENDOCUMENT_EXTENSIONS,
+  mimeTypes: [
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.oasis.opendocument.presentation'
+  ],
+
+  async extract(filePath) {
+    const extension = path.extname(filePath).toLowerCase()
+    // officeparser goes by the extension for paths and sniffs buffers, so files that were
+    // recognised by their content are handed over as a buffer
+    const text = await parseOfficeAsync(
+      OPENDOCUMENT_EXTENSIONS.includes(extension) ? filePath : await fs.readFile(filePath),
+      config
+    )
+    return { text, metadata: {} }
+  }
+}
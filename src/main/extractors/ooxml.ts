@@ -0,0 +1,256 @@
+import path from 'path'
+import { compactMetadata, type ContentExtractor, type DocumentMetadata } from './extractor'
+import { SectionedText, columnName, parseCellReference } from './sections'
+import { elements, firstText, localName, parseXml, type XmlDocument } from './xml'
+import { readZipEntries } from './zip'
+
+type Entries = Map<string, Buffer>
+
+// Parts the extractors below read, everything else in the package is left compressed
+const PART_PATTERNS = [
+  /^docProps\/(core|app)\.xml$/,
+  /^word\/(document|styles)\.xml$/,
+  /^ppt\/presentation\.xml$/,
+  /^ppt\/slides\/slide\d+\.xml$/,
+  /^xl\/(workbook|sharedStrings)\.xml$/,
+  /^xl\/worksheets\/[^/]+\.xml$/,
+  /^(ppt|xl)\/_rels\/(presentation|workbook)\.xml\.rels$/
+]
+
+const readXml = (entries: Entries, part: string): XmlDocument | null => {
+  const entry = entries.get(part)
+  return entry ? parseXml(entry.toString('utf-8')) : null
+}
+
+/**
+ * Maps relationship ids of a part to the package paths they point at
+ */
+function readRelationships(entries: Entries, part: string): Map<string, string> {
+  const directory = path.posix.dirname(part)
+  const rels = readXml(entries, `${directory}/_rels/${path.posix.basename(part)}.rels`)
+  return new Map(
+    (rels ? elements(rels, 'relationship') : []).map((relationship) => {
+      const target = relationship.getAttribute('Target') ?? ''
+      return [
+        relationship.getAttribute('Id') ?? '',
+        target.startsWith('/') ? target.slice(1) : path.posix.join(directory, target)
+      ]
+    })
+  )
+}
+
+// Text runs of a paragraph with its tabs and line breaks
+const paragraphText = (paragraph: Element): string =>
+  Array.from(paragraph.querySelectorAll('*'))
+    .map((element) => {
+      const name = localName(element)
+      if (name === 't') return element.textContent ?? ''
+      if (name === 'tab') return '\t'
+      if (name === 'br' || name === 'cr') return '\n'
+      return ''
+    })
+    .join('')
+
+// Title, author and language from the core properties, page or slide count from the
+// application properties when the producer recorded it
+function packageMetadata(entries: Entries, pageField?: string): DocumentMetadata {
+  const core = readXml(entries, 'docProps/core.xml')
+  const app = readXml(entries, 'docProps/app.xml')
+  const pages = app && pageField ? Number(firstText(app, pageField)) : NaN
+  return compactMetadata({
+    title: core ? firstText(core, 'title') : undefined,
+    author: core ? firstText(core, 'creator') : undefined,
+    language: core ? firstText(core, 'language') : undefined,
+    pageCount: pages > 0 ? pages : undefined
+  })
+}
+
+/**
+ * Outline level of every paragraph style that is a heading, from its built-in name
+ * ("heading 2") or an explicit outline level
+ */
+function headingStyles(styles: XmlDocument | null): Map<string, number> {
+  const levels = new Map<string, number>()
+  for (const style of styles ? elements(styles, 'style') : []) {
+    const id = style.getAttribute('w:styleId')
+    const name = elements(style, 'name')[0]?.getAttribute('w:val') ?? ''
+    const outline = elements(style, 'outlineLvl')[0]?.getAttribute('w:val')
+    const level = Number(name.match(/^heading (\d)$/i)?.[1] ?? (outline ? Number(outline) + 1 : 0))
+    if (id && level > 0 && level < 10) levels.set(id, level)
+  }
+  return levels
+}
+
+/**
+ * Word documents as Markdown, with a section for every heading named by its path
+ * through the outline
+ */
+function extractWord(entries: Entries): SectionedText {
+  const document = readXml(entries, 'word/document.xml')
+  const body = document ? elements(document, 'body')[0] : undefined
+  const styles = headingStyles(readXml(entries, 'word/styles.xml'))
+  const text = new SectionedText()
+  const outline: string[] = []
+
+  const addParagraph = (paragraph: Element): void => {
+    const content = paragraphText(paragraph).trim()
+    const style = elements(paragraph, 'pStyle')[0]?.getAttribute('w:val')
+    const outlineLevel = elements(paragraph, 'outlineLvl')[0]?.getAttribute('w:val')
+    const level = (style && styles.get(style)) || (outlineLevel ? Number(outlineLevel) + 1 : 0)
+    if (!content || level === 0 || level > 9) {
+      text.append(content)
+      return
+    }
+    outline.splice(level - 1, outline.length, content)
+    const title = outline.filter(Boolean).join(' › ')
+    text.append(`${'#'.repeat(level)} ${content}`, { kind: 'heading', title })
+  }
+
+  for (const block of body ? Array.from(body.children) : []) {
+    const name = localName(block)
+    if (name === 'p') {
+      addParagraph(block)
+    } else if (name === 'tbl') {
+      const rows = elements(block, 'tr').map((row) =>
+        elements(row, 'tc')
+          .map((cell) => elements(cell, 'p').map(paragraphText).join(' ').trim())
+          .join(' | ')
+      )
+      text.append(rows.join('\n'))
+    } else {
+      // Content controls and similar wrappers hold ordinary paragraphs
+      elements(block, 'p').forEach(addParagraph)
+    }
+  }
+  return text
+}
+
+/**
+ * PowerPoint slides in presentation order, one section per slide. Speaker notes are left out.
+ */
+function extractPresentation(entries: Entries): SectionedText {
+  const presentation = readXml(entries, 'ppt/presentation.xml')
+  const relationships = readRelationships(entries, 'ppt/presentation.xml')
+  let slides = (presentation ? elements(presentation, 'sldId') : [])
+    .map((slide) => relationships.get(slide.getAttribute('r:id') ?? ''))
+    .filter((part): part is string => !!part && entries.has(part))
+  if (slides.length === 0) {
+    const slideNumber = (part: string): number => Number(part.match(/(\d+)\.xml$/)?.[1])
+    slides = Array.from(entries.keys())
+      .filter((part) => /^ppt\/slides\/slide\d+\.xml$/.test(part))
+      .sort((a, b) => slideNumber(a) - slideNumber(b))
+  }
+
+  const text = new SectionedText()
+  slides.forEach((part, index) => {
+    const slide = readXml(entries, part)
+    const paragraphs = slide ? elements(slide, 'p').map(paragraphText) : []
+    text.append(paragraphs.filter((line) => line.trim()).join('\n'), {
+      kind: 'slide',
+      page: index + 1
+    })
+  })
+  return text
+}
+
+const cellValue = (cell: Element, sharedStrings: string[]): string => {
+  const type = cell.getAttribute('t')
+  if (type === 'inlineStr')
+    return elements(cell, 't')
+      .map((t) => t.textContent ?? '')
+      .join('')
+  const value = firstText(cell, 'v') ?? ''
+  if (type === 's') return sharedStrings[Number(value)] ?? ''
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE'
+  return value
+}
+
+/**
+ * Excel workbooks sheet by sheet. Rows are labelled with the sheet's first row, like CSV
+ * files, and every row is a section so chunks can name the cells they hold.
+ */
+function extractWorkbook(entries: Entries): SectionedText {
+  const workbook = readXml(entries, 'xl/workbook.xml')
+  const relationships = readRelationships(entries, 'xl/workbook.xml')
+  const strings = readXml(entries, 'xl/sharedStrings.xml')
+  const sharedStrings = (strings ? elements(strings, 'si') : []).map((item) =>
+    elements(item, 't')
+      .map((t) => t.textContent ?? '')
+      .join('')
+  )
+
+  const text = new SectionedText()
+  for (const sheet of workbook ? elements(workbook, 'sheet') : []) {
+    const title = sheet.getAttribute('name') ?? ''
+    const part = relationships.get(sheet.getAttribute('r:id') ?? '')
+    const worksheet = part ? readXml(entries, part) : null
+    if (!worksheet) continue
+
+    const rows = elements(worksheet, 'row').flatMap((row) => {
+      const cells = elements(row, 'c').flatMap((cell) => {
+        const position = parseCellReference(cell.getAttribute('r') ?? '')
+        const value = cellValue(cell, sharedStrings).trim()
+        return position && value ? [{ ...position, value }] : []
+      })
+      return cells.length > 0 ? [cells] : []
+    })
+    if (rows.length === 0) continue
+
+    const [header, ...records] = rows
+    const headers = new Map(header.map((cell) => [cell.column, cell.value]))
+    text.append(`## ${title}`, { kind: 'sheet', title })
+    text.append(header.map((cell) => cell.value).join('; '), {
+      kind: 'sheet',
+      title,
+      cells: {
+        firstRow: header[0].row,
+        lastRow: header[0].row,
+        firstColumn: header[0].column,
+        lastColumn: header[header.length - 1].column
+      }
+    })
+    for (const cells of records) {
+      const line = cells
+        .map((cell) => `${headers.get(cell.column) ?? columnName(cell.column)}: ${cell.value}`)
+        .join('; ')
+      const cellRange = {
+        firstRow: cells[0].row,
+        lastRow: cells[0].row,
+        firstColumn: cells[0].column,
+        lastColumn: cells[cells.length - 1].column
+      }
+      text.append(line, { kind: 'sheet', title, cells: cellRange }, '\n')
+    }
+  }
+  return text
+}
+
+/**
+ * Word, PowerPoint and Excel files, told apart by the parts they contain rather than their
+ * extension. Pages are not known before layout, so Word documents are split by heading.
+ */
+export const ooxmlExtractor: ContentExtractor = {
+  id: 'ooxml',
+  extensions: ['.docx', '.docm', '.pptx', '.pptm', '.xlsx', '.xlsm'],
+  mimeTypes: [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ],
+
+  async extract(filePath) {
+    const entries = await readZipEntries(filePath, (name) =>
+      PART_PATTERNS.some((pattern) => pattern.test(name))
+    )
+    if (entries.has('word/document.xml')) {
+      return extractWord(entries).toDocument(packageMetadata(entries, 'Pages'))
+    }
+    if (entries.has('ppt/presentation.xml')) {
+      return extractPresentation(entries).toDocument(packageMetadata(entries, 'Slides'))
+    }
+    if (entries.has('xl/workbook.xml')) {
+      return extractWorkbook(entries).toDocument(packageMetadata(entries))
+    }
+    throw new Error(`Not a Word, PowerPoint or Excel file: ${filePath}`)
+  }
+}
@@ -0,0 +1,53 @@
+import fs from 'fs/promises'
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf'
+import { meanConfidence, recognizePdfPage, type RecognizedPage } from '../ocr'
+import { compactMetadata, type ContentExtractor } from './extractor'
+import { SectionedText } from './sections'
+
+interface PdfInfo {
+  Title?: string
+  Author?: string
+}
+
+/**
+ * PDF files page by page, so every chunk knows the pages it was taken from. Pages without
+ * a text layer are scans, recognized through OCR when the index root enables it.
+ */
+export const pdfExtractor: ContentExtractor = {
+  id: 'pdf',
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+
+  async extract(filePath, { ocr }) {
+    const data = new Uint8Array(await fs.readFile(filePath))
+    const pdf = await getDocument({ data, isEvalSupported: false, useSystemFonts: true }).promise
+    try {
+      const text = new SectionedText()
+      const recognized: RecognizedPage[] = []
+      for (let page = 1; page <= pdf.numPages; page++) {
+        const content = await (await pdf.getPage(page)).getTextContent()
+        let pageText = content.items
+          .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+          .join('')
+        if (ocr && !pageText.trim()) {
+          const result = await recognizePdfPage(filePath, page)
+          recognized.push(result)
+          pageText = result.text
+        }
+        text.append(pageText, { kind: 'page', page })
+      }
+
+      const info = ((await pdf.getMetadata().catch(() => null))?.info ?? {}) as PdfInfo
+      return text.toDocument(
+        compactMetadata({
+          title: info.Title?.trim(),
+          author: info.Author?.trim(),
+          pageCount: pdf.numPages,
+          ocrConfidence: meanConfidence(recognized)
+        })
+      )
+    } finally {
+      await pdf.destroy()
+    }
+  }
+}
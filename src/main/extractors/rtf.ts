@@ -0,0 +1,134 @@
+import fs from 'fs/promises'
+import {
+  compactMetadata,
+  decodeBytes,
+  type ContentExtractor,
+  type ExtractedDocument
+} from './extractor'
+
+interface GroupState {
+  skip: boolean // Inside a destination whose text is not part of the document
+  capture?: 'title' | 'author' // Inside an \info field that is kept as metadata
+  unicodeSkip: number // Fallback characters following every \u escape, set by \uc
+}
+
+// Destinations holding fonts, styles, pictures and other non-text data
+const SKIPPED_DESTINATIONS = new Set(
+  [
+    'fonttbl colortbl stylesheet listtable listoverridetable revtbl rsidtbl info pict object',
+    'themedata colorschememapping datastore latentstyles xmlnstbl generator filetbl mmathPr',
+    'header footer headerl headerr footerl footerr fldinst'
+  ].flatMap((line) => line.split(' '))
+)
+
+const SYMBOLS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  row: '\n',
+  cell: '\t',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”'
+}
+
+/**
+ * Text of an RTF document with its \info title and author. Hex escapes are read as
+ * Windows-1252, which covers the default \ansi code page.
+ */
+export function parseRtf(rtf: string): ExtractedDocument {
+  let text = ''
+  const captured = { title: '', author: '' }
+  const stack: GroupState[] = []
+  let state: GroupState = { skip: false, unicodeSkip: 1 }
+  let pendingSkip = 0 // Fallback characters still to drop after a \u escape
+
+  const emit = (chars: string): void => {
+    if (pendingSkip > 0) {
+      pendingSkip--
+      return
+    }
+    if (state.capture) captured[state.capture] += chars
+    else if (!state.skip) text += chars
+  }
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i]
+    if (char === '{') {
+      stack.push(state)
+      state = { ...state }
+    } else if (char === '}') {
+      state = stack.pop() ?? state
+      pendingSkip = 0
+    } else if (char === '\\') {
+      const next = rtf[i + 1]
+      const word = rtf.slice(i + 1).match(/^([a-zA-Z]+)(-?\d+)? ?/)
+      if (word) {
+        i += word[0].length
+        const [, name, param] = word
+        const value = param === undefined ? undefined : Number(param)
+        if (name === 'u' && value !== undefined) {
+          pendingSkip = 0
+          emit(String.fromCharCode(value < 0 ? value + 65536 : value))
+          pendingSkip = state.unicodeSkip
+        } else if (name === 'uc' && value !== undefined) {
+          state.unicodeSkip = value
+        } else if ((name === 'title' || name === 'author') && stack.length > 0) {
+          state.capture = name
+        } else if (SKIPPED_DESTINATIONS.has(name)) {
+          state.skip = true
+        } else if (SYMBOLS[name]) {
+          emit(SYMBOLS[name])
+        }
+      } else if (next === "'") {
+        emit(decodeBytes(Uint8Array.of(parseInt(rtf.slice(i + 2, i + 4), 16)), 'windows-1252'))
+        i += 3
+      } else if (next === '*') {
+        // Optional destinations the reader does not know are ignored with their content
+        state.skip = true
+        i++
+      } else if (next === '\n' || next === '\r') {
+        emit('\n')
+        i++
+      } else if (next === '~') {
+        emit(' ')
+        i++
+      } else {
+        // Escaped \, { and }, while \- and \_ are optional and non-breaking hyphens
+        if (next === '_') emit('-')
+        else if (next !== '-') emit(next)
+        i++
+      }
+    } else if (char !== '\n' && char !== '\r') {
+      emit(char)
+    }
+  }
+
+  return {
+    text: text
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+    metadata: compactMetadata({
+      title: captured.title.trim(),
+      author: captured.author.trim()
+    })
+  }
+}
+
+export const rtfExtractor: ContentExtractor = {
+  id: 'rtf',
+  extensions: ['.rtf'],
+  mimeTypes: ['application/rtf', 'text/rtf'],
+
+  async extract(filePath) {
+    // RTF is 7-bit, anything else arrives through escapes
+    return parseRtf(await fs.readFile(filePath, 'latin1'))
+  }
+}
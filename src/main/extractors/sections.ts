@@ -0,0 +1,133 @@
+import type { CellRange, DocumentSection, ExtractedDocument } from './extractor'
+
+export interface SectionLocation {
+  page?: number // First page or slide of the range, to open the document there
+  section?: string // Human readable place, e.g. "page 14", "slides 3–4" or "Budget!A1:F20"
+  startTime?: number // Seconds into a recording, to play it from there
+  endTime?: number
+}
+
+/**
+ * Builds extracted text block by block while recording where each section starts
+ */
+export class SectionedText {
+  private text = ''
+  private sections: DocumentSection[] = []
+
+  /**
+   * Appends a block of text, empty blocks are dropped together with their section
+   * @param separator Put between this block and the previous one
+   */
+  append(block: string, section?: Omit<DocumentSection, 'start'>, separator = '\n\n'): void {
+    const trimmed = block.trim()
+    if (!trimmed) return
+    if (this.text) this.text += separator
+    if (section) this.sections.push({ ...section, start: this.text.length })
+    this.text += trimmed
+  }
+
+  toDocument(metadata: ExtractedDocument['metadata']): ExtractedDocument {
+    return { text: this.text, metadata, sections: this.sections }
+  }
+}
+
+// 1 -> A, 27 -> AA
+export const columnName = (column: number): string => {
+  let name = ''
+  for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// B12 -> { row: 12, column: 2 }
+export const parseCellReference = (reference: string): { row: number; column: number } | null => {
+  const match = reference.match(/^([A-Z]+)(\d+)$/i)
+  if (!match) return null
+  const column = Array.from(match[1].toUpperCase()).reduce(
+    (total, letter) => total * 26 + letter.charCodeAt(0) - 64,
+    0
+  )
+  return { row: Number(match[2]), column }
+}
+
+const formatCells = ({ firstRow, lastRow, firstColumn, lastColumn }: CellRange): string => {
+  const from = `${columnName(firstColumn)}${firstRow}`
+  const to = `${columnName(lastColumn)}${lastRow}`
+  return from === to ? from : `${from}:${to}`
+}
+
+// 83 -> 1:23, 3723 -> 1:02:03
+export const formatTime = (seconds: number): string => {
+  const total = Math.floor(seconds)
+  const minutes = Math.floor(total / 60) % 60
+  const rest = String(total % 60).padStart(2, '0')
+  return total >= 3600
+    ? `${Math.floor(total / 3600)}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`
+}
+
+const formatNumbers = (noun: string, first?: number, last?: number): string =>
+  first === last || last === undefined ? `${noun} ${first}` : `${noun}s ${first}–${last}`
+
+/**
+ * Describes the sections a span of extracted text overlaps, for labelling a chunk
+ */
+export function locateSections(
+  sections: DocumentSection[],
+  start: number,
+  end: number
+): SectionLocation {
+  // Last section starting at or before the span, or the first one when the span begins
+  // in text ahead of every section
+  let firstIndex = -1
+  for (let low = 0, high = sections.length - 1; low <= high; ) {
+    const middle = (low + high) >> 1
+    if (sections[middle].start <= start) {
+      firstIndex = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  let lastIndex = Math.max(firstIndex, 0)
+  while (lastIndex + 1 < sections.length && sections[lastIndex + 1].start < end) lastIndex++
+
+  const first = sections[Math.max(firstIndex, 0)]
+  const last = sections[lastIndex]
+  if (!first || first.start >= end) return {}
+
+  switch (first.kind) {
+    case 'page':
+    case 'slide':
+      return {
+        page: first.page,
+        section: formatNumbers(
+          first.kind,
+          first.page,
+          last.kind === first.kind ? last.page : undefined
+        )
+      }
+    case 'sheet': {
+      const covered = sections
+        .slice(Math.max(firstIndex, 0), lastIndex + 1)
+        .filter((section) => section.title === first.title && section.cells)
+        .map((section) => section.cells as CellRange)
+      if (covered.length === 0) return { section: first.title }
+      const cells: CellRange = {
+        firstRow: Math.min(...covered.map((range) => range.firstRow)),
+        lastRow: Math.max(...covered.map((range) => range.lastRow)),
+        firstColumn: Math.min(...covered.map((range) => range.firstColumn)),
+        lastColumn: Math.max(...covered.map((range) => range.lastColumn))
+      }
+      return { section: `${first.title}!${formatCells(cells)}` }
+    }
+    case 'heading':
+      return { section: first.title }
+    case 'time': {
+      const startTime = first.time ?? 0
+      const endTime = last.endTime ?? last.time ?? startTime
+      return { startTime, endTime, section: `${formatTime(startTime)}–${formatTime(endTime)}` }
+    }
+  }
+}
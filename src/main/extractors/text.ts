@@ -0,0 +1,33 @@
+import { compactMetadata, readText, type ContentExtractor } from './extractor'
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/
+
+const frontmatterField = (frontmatter: string, field: string): string | undefined =>
+  frontmatter
+    .match(new RegExp(`^${field}:\\s*(.+)$`, 'mi'))?.[1]
+    .trim()
+    .replace(/^(['"])(.*)\1$/, '$2')
+
+/**
+ * Plain text, Markdown and JSON. Markdown titles come from front matter or the first
+ * top level heading.
+ */
+export const textExtractor: ContentExtractor = {
+  id: 'text',
+  extensions: ['.txt', '.text', '.log', '.md', '.markdown', '.mdx', '.rst', '.json'],
+  mimeTypes: ['text/plain', 'text/markdown', 'application/json'],
+
+  async extract(filePath) {
+    const text = await readText(filePath)
+    const frontmatter = text.match(FRONTMATTER_PATTERN)?.[1] ?? ''
+
+    return {
+      text,
+      metadata: compactMetadata({
+        title: frontmatterField(frontmatter, 'title') ?? text.match(/^#\s+(.+)$/m)?.[1].trim(),
+        author: frontmatterField(frontmatter, 'author'),
+        language: frontmatterField(frontmatter, 'lang') ?? frontmatterField(frontmatter, 'language')
+      })
+    }
+  }
+}
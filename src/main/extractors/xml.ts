@@ -0,0 +1,21 @@
+import { DOMParser } from 'linkedom'
+
+export type XmlDocument = ReturnType<DOMParser['parseFromString']>
+
+export const parseXml = (xml: string): XmlDocument =>
+  new DOMParser().parseFromString(xml, 'text/xml')
+
+// Namespace prefixes differ between producers, so elements are matched by local name
+export const localName = (element: Element): string =>
+  element.tagName.toLowerCase().split(':').pop() ?? ''
+
+/**
+ * Descendants with the given local name in document order, so dc:title and title both match
+ */
+export const elements = (root: XmlDocument | Element, name: string): Element[] => {
+  const wanted = name.toLowerCase()
+  return Array.from(root.querySelectorAll('*')).filter((element) => localName(element) === wanted)
+}
+
+export const firstText = (root: XmlDocument | Element, name: string): string | undefined =>
+  elements(root, name)[0]?.textContent?.trim() || undefined
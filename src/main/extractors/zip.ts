@@ -0,0 +1,36 @@
+import yauzl from 'yauzl'
+
+/**
+ * Reads the entries of a zip archive the filter accepts into memory
+ */
+export function readZipEntries(
+  filePath: string,
+  accept: (name: string) => boolean
+): Promise<Map<string, Buffer>> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(filePath, { lazyEntries: true }, (error, zipfile) => {
+      if (error || !zipfile) return reject(error)
+      const entries = new Map<string, Buffer>()
+
+      zipfile.on('entry', (entry: yauzl.Entry) => {
+        if (!accept(entry.fileName)) return zipfile.readEntry()
+        zipfile.openReadStream(entry, (streamError, stream) => {
+          if (streamError || !stream) {
+            zipfile.close()
+            return reject(streamError)
+          }
+          const chunks: Buffer[] = []
+          stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+          stream.on('error', reject)
+          stream.on('end', () => {
+            entries.set(entry.fileName, Buffer.concat(chunks))
+            zipfile.readEntry()
+          })
+        })
+      })
+      zipfile.on('end', () => resolve(entries))
+      zipfile.on('error', reject)
+      zipfile.readEntry()
+    })
+  })
+}
@@ -0,0 +1,122 @@
+import path from 'path'
+import os from 'os'
+import fs from 'fs/promises'
+import { minimatch } from 'minimatch'
+import { v4 as uuidv4 } from 'uuid'
+import { logger } from './utils/logger'
+import type { IndexRoot } from './types'
+
+export const DEFAULT_ROOT_PATH = path.join(os.homedir(), 'alBERT')
+export const DEFAULT_INCLUDE = ['**/*']
+export const DEFAULT_EXCLUDE = ['**/node_modules/**']
+export const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
+
+/**
+ * Expands a leading `~` to the user's home directory and resolves the path
+ */
+export function expandHome(rootPath: string): string {
+  if (rootPath === '~' || rootPath.startsWith('~/') || rootPath.startsWith('~\\')) {
+    return path.resolve(os.homedir(), rootPath.slice(2))
+  }
+  return path.resolve(rootPath)
+}
+
+export function createIndexRoot(
+  rootPath: string,
+  options: Partial<Omit<IndexRoot, 'id' | 'path'>> = {}
+): IndexRoot {
+  return {
+    id: uuidv4(),
+    path: expandHome(rootPath),
+    include: options.include?.length ? options.include : DEFAULT_INCLUDE,
+    exclude: options.exclude ?? DEFAULT_EXCLUDE,
+    maxFileSize: options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE,
+    ocr: options.ocr ?? false,
+    transcribe: options.transcribe ?? false
+  }
+}
+
+const toRelative = (root: IndexRoot, filePath: string): string | null => {
+  const relative = path.relative(root.path, filePath)
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null
+  }
+  // Glob patterns always use forward slashes
+  return relative.split(path.sep).join('/')
+}
+
+/**
+ * Whether a directory should be skipped entirely while walking a root.
+ * Hidden directories are never indexed.
+ */
+export function isDirectoryExcluded(root: IndexRoot, dirPath: string): boolean {
+  const relative = toRelative(root, dirPath)
+  if (relative === null) return false
+  if (relative.split('/').some((part) => part.startsWith('.'))) return true
+
+  return root.exclude.some((pattern) =>
+    minimatch(relative, pattern.replace(/\/\*\*$/, ''), { dot: true })
+  )
+}
+
+/**
+ * Whether a file belongs to a root according to its include/exclude globs and size limit
+ * @param size File size in bytes, skipped when unknown
+ */
+export function isPathIncluded(root: IndexRoot, filePath: string, size?: number): boolean {
+  const relative = toRelative(root, filePath)
+  if (relative === null) return false
+  if (size !== undefined && size > root.maxFileSize) return false
+
+  const included = root.include.some((pattern) => minimatch(relative, pattern, { matchBase: true }))
+  const excluded = root.exclude.some((pattern) =>
+    minimatch(relative, pattern, { dot: true, matchBase: true })
+  )
+  return included && !excluded
+}
+
+/**
+ * Finds the first root that includes the given file
+ */
+export function findRootForPath(
+  roots: IndexRoot[],
+  filePath: string,
+  size?: number
+): IndexRoot | undefined {
+  return roots.find((root) => isPathIncluded(root, filePath, size))
+}
+
+export interface RootFile {
+  path: string
+  size: number
+}
+
+/**
+ * Walks a root and lists every file it includes, without reading any content
+ */
+export async function enumerateRootFiles(
+  root: IndexRoot,
+  dirPath: string = root.path
+): Promise<RootFile[]> {
+  const files: RootFile[] = []
+  const entries = await fs.readdir(dirPath, { withFileTypes: true })
+
+  for (const entry of entries) {
+    const fullPath = path.join(dirPath, entry.name)
+    try {
+      if (entry.isDirectory()) {
+        if (isDirectoryExcluded(root, fullPath)) continue
+        files.push(...(await enumerateRootFiles(root, fullPath)))
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(fullPath)
+        if (isPathIncluded(root, fullPath, stats.size)) {
+          files.push({ path: fullPath, size: stats.size })
+        }
+      }
+    } catch (error) {
+      logger.error(`Error enumerating ${fullPath}:`, error)
+    }
+  }
+
+  return files
+}
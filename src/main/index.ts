@@ -10,6 +10,12 @@ import {
 } from 'electron'
 import { join } from 'node:path'
 import SearchDB from './db'
+import SettingsStore from './settings'
+import IndexingQueue from './indexing-queue'
+import { activateModels } from './models'
+import ChatHistoryStore, { indexChatHistory } from './chat-history'
+import { setPrivateMode } from './network-policy'
+import { handleMediaProtocol, registerMediaScheme } from './media-protocol'
 import path from 'node:path'
 import { is } from '@electron-toolkit/utils'
 import { createIPCHandler } from 'electron-trpc/main'
@@ -21,6 +27,7 @@ process.env.APP_ROOT = path.join(__dirname, '..')
 let tray: Tray | null = null
 let mainWindow: BrowserWindow | null = null
 app.commandLine.appendSwitch('enable-unsafe-webgpu')
+registerMediaScheme()
 function createWindow(): void {
   const currentScreen = screen.getDisplayNearestPoint(screen.getCursorScreenPoint())
 
@@ -85,8 +92,10 @@ function createWindow(): void {
   })
 }
 
-function openAlBERTFolder(): void {
-  const alBERTPath = path.join(app.getPath('home'), 'alBERT')
+async function openAlBERTFolder(): Promise<void> {
+  const settings = await SettingsStore.getInstance(app.getPath('userData'))
+  const [firstRoot] = settings.get('indexRoots')
+  const alBERTPath = firstRoot?.path ?? path.join(app.getPath('home'), 'alBERT')
   shell.openPath(alBERTPath).catch((error) => {
     console.error('Failed to open alBERT folder:', error)
   })
@@ -119,18 +128,48 @@ function toggleWindow(): void {
 app.whenReady().then(async () => {
   // Register global shortcut
   globalShortcut.register('Alt+Space', toggleWindow)
+  handleMediaProtocol()
 
   // Initialize search database
   const userDataPath = app.getPath('userData')
   const searchDB = await SearchDB.getInstance(userDataPath)
-  // Start indexing
-  searchDB
-    .startIndexing(path.join(app.getPath('home'), 'alBERT'), (progress, status) => {
-      mainWindow?.webContents.send('indexing-progress', { progress, status })
-    })
-    .catch((error) => {
-      console.error('Error indexing directory:', error)
-    })
+  const settings = await SettingsStore.getInstance(userDataPath)
+  const indexingQueue = IndexingQueue.getInstance(searchDB, userDataPath)
+  const chatHistory = await ChatHistoryStore.getInstance(userDataPath)
+  setPrivateMode(settings.get('privateMode'))
+  indexingQueue.on('progress', (progress) => {
+    mainWindow?.webContents.send('indexing-progress', progress)
+  })
+  // Select the configured models (re-embedding everything if the index was built with another
+  // one), resume any interrupted run, then scan every configured root and watch it for changes
+  const indexRoots = async (): Promise<void> => {
+    const indexChats = (): Promise<void> => indexChatHistory(searchDB, chatHistory)
+    const reembedding = await activateModels(settings, searchDB, indexingQueue, indexChats).catch(
+      (error) => {
+        console.error('Error activating embedding model:', error)
+        return false
+      }
+    )
+    if (!reembedding) {
+      // Catches up on threads saved while the index was unavailable
+      await indexChats().catch((error) => console.error('Error indexing chat history:', error))
+      // A re-embed queues every file again, so there is nothing to resume
+      await indexingQueue.restore()
+    }
+    const roots = settings.get('indexRoots')
+    for (const root of roots) {
+      if (!reembedding) {
+        await indexingQueue.enqueueRoot(
+          root,
+          roots.filter((other) => other.id !== root.id)
+        )
+      }
+      await indexingQueue.watchRoot(root).catch((error) => {
+        console.error(`Error watching directory ${root.path}:`, error)
+      })
+    }
+  }
+  indexRoots()
 
   createWindow()
   createTray()
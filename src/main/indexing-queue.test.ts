@@ -0,0 +1,127 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type SearchDB from './db'
+import type IndexingQueue from './indexing-queue'
+import { createIndexRoot } from './index-roots'
+
+// Records the order jobs reach the index in
+const createSearchDB = (indexedPaths: string[] = []): { db: SearchDB; calls: string[] } => {
+  const calls: string[] = []
+  const db = {
+    indexFile: async (filePath: string): Promise<void> => void calls.push(`index ${filePath}`),
+    removeFile: async (filePath: string): Promise<void> => void calls.push(`remove ${filePath}`),
+    moveFile: async (from: string, to: string): Promise<void> =>
+      void calls.push(`move ${from} ${to}`),
+    getIndexedPaths: (): string[] => indexedPaths
+  }
+  return { db: db as unknown as SearchDB, calls }
+}
+
+describe('IndexingQueue', () => {
+  let userData: string
+
+  // The queue is a singleton, every test gets a fresh module
+  const createQueue = async (db: SearchDB): Promise<IndexingQueue> => {
+    vi.resetModules()
+    const { default: Queue } = await import('./indexing-queue')
+    return Queue.getInstance(db, userData)
+  }
+
+  // Queues the jobs the way a restart does and runs them to the end
+  const runJobs = async (queue: IndexingQueue, jobs: unknown[]): Promise<void> => {
+    await fs.writeFile(
+      path.join(userData, 'alBERT_indexing-queue.json'),
+      JSON.stringify({ paused: true, jobs })
+    )
+    await queue.restore()
+    const idle = new Promise((resolve) => queue.once('idle', resolve))
+    await queue.resume()
+    await idle
+  }
+
+  beforeEach(async () => {
+    userData = await fs.mkdtemp(path.join(os.tmpdir(), 'indexing-queue-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(userData, { recursive: true, force: true })
+  })
+
+  it('merges repeated index jobs for the same file', async () => {
+    const { db, calls } = createSearchDB()
+    const queue = await createQueue(db)
+
+    await runJobs(queue, [
+      { type: 'index', path: '/notes/a.md', size: 10 },
+      { type: 'index', path: '/notes/b.md', size: 10 },
+      { type: 'index', path: '/notes/a.md', size: 12 }
+    ])
+
+    expect(calls).toEqual(['index /notes/a.md', 'index /notes/b.md'])
+  })
+
+  it('indexes a file deleted and created again after its removal', async () => {
+    const { db, calls } = createSearchDB()
+    const queue = await createQueue(db)
+
+    await runJobs(queue, [
+      { type: 'index', path: '/notes/a.md', size: 10 },
+      { type: 'index', path: '/notes/b.md', size: 10 },
+      { type: 'remove', path: '/notes/a.md' },
+      { type: 'index', path: '/notes/a.md', size: 12 }
+    ])
+
+    expect(calls).toEqual(['index /notes/b.md', 'remove /notes/a.md', 'index /notes/a.md'])
+  })
+
+  it('drops the pending index job of a file moved away', async () => {
+    const { db, calls } = createSearchDB()
+    const queue = await createQueue(db)
+
+    await runJobs(queue, [
+      { type: 'index', path: '/notes/a.md', size: 10 },
+      { type: 'move', from: '/notes/a.md', to: '/archive/a.md' }
+    ])
+
+    expect(calls).toEqual(['move /notes/a.md /archive/a.md'])
+  })
+
+  it('counts only the jobs left after merging', async () => {
+    const { db } = createSearchDB()
+    const queue = await createQueue(db)
+    await fs.writeFile(
+      path.join(userData, 'alBERT_indexing-queue.json'),
+      JSON.stringify({
+        paused: true,
+        jobs: [
+          { type: 'index', path: '/notes/a.md', size: 10 },
+          { type: 'remove', path: '/notes/a.md' },
+          { type: 'index', path: '/notes/a.md', size: 12 }
+        ]
+      })
+    )
+
+    await queue.restore()
+
+    expect(queue.getStatus()).toMatchObject({ filesTotal: 2, bytesTotal: 12, state: 'paused' })
+  })
+
+  it('skips a missing root without creating it or dropping its files from the index', async () => {
+    const missing = path.join(userData, 'unmounted')
+    const { db, calls } = createSearchDB([path.join(missing, 'a.md')])
+    const queue = await createQueue(db)
+    const progress = vi.fn()
+    queue.on('progress', progress)
+
+    await queue.enqueueRoot(createIndexRoot(missing))
+
+    await expect(fs.stat(missing)).rejects.toThrow()
+    expect(calls).toEqual([])
+    expect(queue.getStatus().filesTotal).toBe(0)
+    expect(progress).toHaveBeenCalledWith(
+      expect.objectContaining({ status: `Skipped ${missing}, the folder is missing` })
+    )
+  })
+})
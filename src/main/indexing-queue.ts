@@ -0,0 +1,467 @@
+import path from 'path'
+import fs from 'fs/promises'
+import { EventEmitter } from 'events'
+import type SearchDB from './db'
+import { logger } from './utils/logger'
+import { DEFAULT_ROOT_PATH, enumerateRootFiles, findRootForPath } from './index-roots'
+import type { FileEvent, IndexRoot } from './types'
+
+// `ocr` and `transcribe` mirror the settings of the file's root when the job was queued
+type IndexJob =
+  | { type: 'index'; path: string; size?: number; ocr?: boolean; transcribe?: boolean }
+  | { type: 'remove'; path: string }
+  | { type: 'move'; from: string; to: string; ocr?: boolean; transcribe?: boolean }
+
+interface PersistedQueue {
+  paused: boolean
+  jobs: IndexJob[]
+}
+
+export type IndexingState = 'idle' | 'enumerating' | 'running' | 'paused'
+
+export interface IndexingProgress {
+  progress: number
+  status: string
+  state: IndexingState
+  filesDone: number
+  filesTotal: number
+  bytesDone: number
+  bytesTotal: number
+  etaSeconds: number | null
+  currentFile: string | null
+}
+
+const DEBOUNCE_MS = 1000
+const PERSIST_INTERVAL_MS = 2000
+
+const jobPath = (job: IndexJob): string => (job.type === 'move' ? job.to : job.path)
+const jobSize = (job: IndexJob): number => (job.type === 'index' ? (job.size ?? 0) : 0)
+
+/**
+ * Single queue for all indexing work: root enumeration at startup, roots added or removed
+ * at runtime and debounced file watcher events. The pending queue is persisted so an
+ * interrupted run resumes after a restart. Emits `progress` events with global totals.
+ */
+class IndexingQueue extends EventEmitter {
+  private static instance: IndexingQueue | null = null
+  private searchDB: SearchDB
+  private queuePath: string
+  private pendingEvents = new Map<string, FileEvent['type']>()
+  private jobs: IndexJob[] = []
+  private queuedJobs = new Map<string, IndexJob>() // Pending index jobs by path
+  private watchedRoots = new Map<string, IndexRoot>()
+  private flushTimer: NodeJS.Timeout | null = null
+  private isProcessing: boolean = false
+  private isPaused: boolean = false
+  private enumerating: number = 0
+  private currentFile: string | null = null
+  private lastPersist: number = 0
+  private runId: number = 0 // Bumped by cancel(), so the job running then is left uncounted
+
+  // Totals for the current run, reset whenever the queue drains
+  private filesDone: number = 0
+  private filesTotal: number = 0
+  private bytesDone: number = 0
+  private bytesTotal: number = 0
+  private activeMs: number = 0
+
+  private constructor(searchDB: SearchDB, queuePath: string) {
+    super()
+    this.searchDB = searchDB
+    this.queuePath = queuePath
+  }
+
+  public static getInstance(searchDB: SearchDB, userDataPath: string): IndexingQueue {
+    if (!IndexingQueue.instance) {
+      const queuePath = path.join(userDataPath, 'alBERT_indexing-queue.json')
+      IndexingQueue.instance = new IndexingQueue(searchDB, queuePath)
+    }
+    return IndexingQueue.instance
+  }
+
+  /**
+   * Restores the queue left over from the previous session
+   */
+  public async restore(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.queuePath, 'utf-8')
+      const persisted: PersistedQueue = JSON.parse(content)
+      this.isPaused = persisted.paused
+      persisted.jobs.forEach((job) => this.addJob(job))
+      logger.info(`Restored ${persisted.jobs.length} pending indexing jobs`)
+    } catch {
+      logger.info('No pending indexing jobs to restore.')
+    }
+    this.process()
+  }
+
+  public async watchRoot(root: IndexRoot): Promise<void> {
+    this.watchedRoots.set(root.id, root)
+    await this.searchDB.setupFileWatcher(root, (event) => this.push(event))
+    logger.info(`Watching index root ${root.path}`)
+  }
+
+  public async unwatchRoot(rootId: string): Promise<void> {
+    this.watchedRoots.delete(rootId)
+    await this.searchDB.stopFileWatcher(rootId)
+  }
+
+  /**
+   * Lists every file in a root up front, queues the ones to (re)index and queues removal
+   * of indexed files that disappeared or no longer match the root's filters
+   * @param otherRoots Roots whose files must be kept even if this root excludes them
+   */
+  public async enqueueRoot(root: IndexRoot, otherRoots: IndexRoot[] = []): Promise<void> {
+    // The alBERT folder is the app's own and made on first run. Any other root that is missing,
+    // e.g. on an unmounted drive, is skipped so its files stay in the index until it is back.
+    if (root.path === DEFAULT_ROOT_PATH) {
+      await fs.mkdir(root.path, { recursive: true }).catch(() => undefined)
+    }
+    const stats = await fs.stat(root.path).catch(() => null)
+    if (!stats?.isDirectory()) {
+      logger.warn(`Index root ${root.path} is missing, skipping it`)
+      this.emitProgress(`Skipped ${root.path}, the folder is missing`)
+      return
+    }
+
+    this.enumerating++
+    this.emitProgress(`Scanning ${root.path}`)
+    try {
+      const files = await enumerateRootFiles(root)
+      const found = new Set(files.map((file) => file.path))
+
+      files.forEach((file) =>
+        this.addJob({
+          type: 'index',
+          path: file.path,
+          size: file.size,
+          ocr: root.ocr,
+          transcribe: root.transcribe
+        })
+      )
+      this.searchDB
+        .getIndexedPaths()
+        .filter(
+          (indexedPath) =>
+            indexedPath.startsWith(root.path + path.sep) &&
+            !found.has(indexedPath) &&
+            !findRootForPath(otherRoots, indexedPath)
+        )
+        .forEach((indexedPath) => this.addJob({ type: 'remove', path: indexedPath }))
+    } catch (error) {
+      logger.error(`Error enumerating index root ${root.path}:`, error)
+    } finally {
+      this.enumerating--
+    }
+
+    await this.persist(true)
+    this.process()
+  }
+
+  /**
+   * Drops pending work for a removed root and queues removal of its indexed files
+   * @param remainingRoots Roots that stay configured
+   */
+  public async purgeRoot(root: IndexRoot, remainingRoots: IndexRoot[]): Promise<void> {
+    const inRoot = (filePath: string): boolean =>
+      filePath.startsWith(root.path + path.sep) && !findRootForPath(remainingRoots, filePath)
+
+    this.jobs = this.jobs.flatMap((job): IndexJob[] => {
+      if (!inRoot(jobPath(job))) return [job]
+      // A file moved into the removed root still has to leave its old place in the index
+      if (job.type === 'move' && !inRoot(job.from)) return [{ type: 'remove', path: job.from }]
+
+      if (job.type === 'index') this.queuedJobs.delete(job.path)
+      this.filesTotal--
+      this.bytesTotal -= jobSize(job)
+      return []
+    })
+    this.searchDB
+      .getIndexedPaths()
+      .filter(inRoot)
+      .forEach((indexedPath) => this.addJob({ type: 'remove', path: indexedPath }))
+
+    await this.persist(true)
+    this.process()
+  }
+
+  public async pause(): Promise<void> {
+    this.isPaused = true
+    await this.persist(true)
+    this.emitProgress('Indexing paused')
+  }
+
+  public async resume(): Promise<void> {
+    this.isPaused = false
+    await this.persist(true)
+    this.process()
+  }
+
+  /**
+   * Drops every pending job. The file currently being indexed is allowed to finish, without
+   * counting towards the totals that start over here.
+   */
+  public async cancel(): Promise<void> {
+    this.jobs = []
+    this.queuedJobs.clear()
+    this.isPaused = false
+    this.runId++
+    this.resetTotals()
+    await this.persist(true)
+    this.emitProgress('Indexing cancelled')
+  }
+
+  /**
+   * Drops all pending work, runs `reset` once the file being indexed has finished and
+   * queues every root again, e.g. to rebuild the index with another embedding model
+   */
+  public async reindexAll(roots: IndexRoot[], reset: () => Promise<void>): Promise<void> {
+    await this.cancel()
+    if (this.currentFile) {
+      this.emitProgress(`Re-embedding after ${path.basename(this.currentFile)}`)
+    }
+    await this.waitForIdle()
+    this.emitProgress('Re-embedding all files')
+    await reset()
+    for (const root of roots) {
+      await this.enqueueRoot(
+        root,
+        roots.filter((other) => other.id !== root.id)
+      )
+    }
+  }
+
+  public getStatus(): IndexingProgress {
+    return this.buildProgress(this.currentFile ? `Indexing ${path.basename(this.currentFile)}` : '')
+  }
+
+  /**
+   * Records a file event, merging it with any pending event for the same path
+   */
+  public push(event: FileEvent): void {
+    const previous = this.pendingEvents.get(event.path)
+
+    if (previous === 'add' && event.type === 'unlink') {
+      // Created and deleted within one window, nothing to do
+      this.pendingEvents.delete(event.path)
+    } else if (previous === 'add' && event.type === 'change') {
+      // Still a new file
+    } else if (previous === 'unlink' && event.type === 'add') {
+      this.pendingEvents.set(event.path, 'change')
+    } else {
+      this.pendingEvents.set(event.path, event.type)
+    }
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      this.flush().catch((error) => logger.error('Error flushing file events:', error))
+    }, DEBOUNCE_MS)
+  }
+
+  /**
+   * Turns pending events into jobs, pairing deletes with adds of identical content as moves
+   */
+  private async flush(): Promise<void> {
+    const events = Array.from(this.pendingEvents.entries())
+    this.pendingEvents.clear()
+
+    const unlinked = new Map<string, string>() // indexed hash -> removed path
+    const unhashed: string[] = []
+    for (const [filePath, type] of events) {
+      if (type !== 'unlink') continue
+      const hash = this.searchDB.getIndexedHash(filePath)
+      if (hash) {
+        unlinked.set(hash, filePath)
+      } else {
+        unhashed.push(filePath)
+      }
+    }
+
+    const roots = Array.from(this.watchedRoots.values())
+    for (const [filePath, type] of events) {
+      if (type === 'unlink') continue
+
+      const root = findRootForPath(roots, filePath)
+      const options = { ocr: root?.ocr, transcribe: root?.transcribe }
+      if (type === 'add' && unlinked.size > 0) {
+        const hash = await this.searchDB.hashFile(filePath, options).catch(() => null)
+        const movedFrom = hash ? unlinked.get(hash) : undefined
+        if (hash && movedFrom) {
+          unlinked.delete(hash)
+          this.addJob({ type: 'move', from: movedFrom, to: filePath, ...options })
+          continue
+        }
+      }
+      const stats = await fs.stat(filePath).catch(() => null)
+      this.addJob({ type: 'index', path: filePath, size: stats?.size, ...options })
+    }
+
+    for (const filePath of [...unlinked.values(), ...unhashed]) {
+      this.addJob({ type: 'remove', path: filePath })
+    }
+
+    await this.persist(true)
+    this.process()
+  }
+
+  private addJob(job: IndexJob): void {
+    // A removal or move supersedes the index job queued for the file, so indexing it again
+    // once it comes back is queued behind the removal
+    if (job.type === 'remove') {
+      this.dropQueuedIndex(job.path)
+    } else if (job.type === 'move') {
+      this.dropQueuedIndex(job.from)
+      this.dropQueuedIndex(job.to)
+    }
+
+    // An index job already queued for the same file covers any newer change to it, only
+    // taking over the latest OCR and transcription settings of its root
+    if (job.type === 'index') {
+      const queued = this.queuedJobs.get(job.path)
+      if (queued?.type === 'index') {
+        queued.ocr = job.ocr
+        queued.transcribe = job.transcribe
+        return
+      }
+      this.queuedJobs.set(job.path, job)
+    }
+    this.jobs.push(job)
+    this.filesTotal++
+    this.bytesTotal += jobSize(job)
+  }
+
+  private dropQueuedIndex(filePath: string): void {
+    const queued = this.queuedJobs.get(filePath)
+    if (!queued) return
+    this.queuedJobs.delete(filePath)
+    this.jobs = this.jobs.filter((job) => job !== queued)
+    this.filesTotal--
+    this.bytesTotal -= jobSize(queued)
+  }
+
+  private async process(): Promise<void> {
+    if (this.isProcessing || this.isPaused) return
+    this.isProcessing = true
+
+    try {
+      while (this.jobs.length > 0 && !this.isPaused) {
+        const job = this.jobs.shift()!
+        if (job.type === 'index') {
+          this.queuedJobs.delete(job.path)
+        }
+        this.currentFile = jobPath(job)
+        this.emitProgress(`Indexing ${path.basename(this.currentFile)}`)
+
+        const startedAt = Date.now()
+        const runId = this.runId
+        try {
+          await this.runJob(job)
+        } catch (error) {
+          // One broken file must not stall the rest of the queue
+          logger.error(`Error processing ${job.type} for ${this.currentFile}:`, error)
+        }
+        if (runId === this.runId) {
+          this.activeMs += Date.now() - startedAt
+          this.filesDone++
+          this.bytesDone += jobSize(job)
+        }
+        this.currentFile = null
+        await this.persist()
+      }
+    } finally {
+      this.isProcessing = false
+      await this.persist(true)
+      this.emit('idle')
+    }
+
+    if (this.jobs.length === 0 && this.enumerating === 0) {
+      this.emitProgress('Indexing complete', true)
+      this.resetTotals()
+    }
+  }
+
+  private waitForIdle(): Promise<void> {
+    if (!this.isProcessing) return Promise.resolve()
+    return new Promise((resolve) => this.once('idle', resolve))
+  }
+
+  private async runJob(job: IndexJob): Promise<void> {
+    switch (job.type) {
+      case 'index':
+        await this.searchDB.indexFile(job.path, { ocr: job.ocr, transcribe: job.transcribe })
+        break
+      case 'remove':
+        await this.searchDB.removeFile(job.path)
+        break
+      case 'move':
+        await this.searchDB.moveFile(job.from, job.to, {
+          ocr: job.ocr,
+          transcribe: job.transcribe
+        })
+        break
+    }
+  }
+
+  private resetTotals(): void {
+    this.filesDone = 0
+    this.filesTotal = this.jobs.length
+    this.bytesDone = 0
+    this.bytesTotal = this.jobs.reduce((sum, job) => sum + jobSize(job), 0)
+    this.activeMs = 0
+  }
+
+  private getState(): IndexingState {
+    if (this.isPaused) return 'paused'
+    if (this.enumerating > 0) return 'enumerating'
+    if (this.isProcessing || this.jobs.length > 0) return 'running'
+    return 'idle'
+  }
+
+  private buildProgress(status: string, done: boolean = false): IndexingProgress {
+    let etaSeconds: number | null = null
+    if (this.activeMs > 0) {
+      // Estimate from bytes when sizes are known, otherwise from file count
+      const remaining =
+        this.bytesDone > 0
+          ? (this.bytesTotal - this.bytesDone) / (this.bytesDone / this.activeMs)
+          : (this.filesTotal - this.filesDone) * (this.activeMs / Math.max(this.filesDone, 1))
+      etaSeconds = Math.max(0, Math.round(remaining / 1000))
+    }
+
+    return {
+      progress: done ? 100 : this.filesTotal > 0 ? (this.filesDone / this.filesTotal) * 100 : 0,
+      status,
+      state: this.getState(),
+      filesDone: this.filesDone,
+      filesTotal: this.filesTotal,
+      bytesDone: this.bytesDone,
+      bytesTotal: this.bytesTotal,
+      etaSeconds,
+      currentFile: this.currentFile
+    }
+  }
+
+  private emitProgress(status: string, done: boolean = false): void {
+    this.emit('progress', this.buildProgress(status, done))
+  }
+
+  /**
+   * Writes the pending queue to disk, throttled unless forced
+   */
+  private async persist(force: boolean = false): Promise<void> {
+    if (!force && Date.now() - this.lastPersist < PERSIST_INTERVAL_MS) return
+    this.lastPersist = Date.now()
+
+    try {
+      const persisted: PersistedQueue = { paused: this.isPaused, jobs: this.jobs }
+      await fs.writeFile(this.queuePath, JSON.stringify(persisted), 'utf-8')
+    } catch (error) {
+      logger.error('Error persisting indexing queue:', error)
+    }
+  }
+}
+
+export default IndexingQueue
@@ -0,0 +1,112 @@
+import { createOpenAI } from '@ai-sdk/openai'
+import type { LanguageModelV1StreamPart } from 'ai'
+import { logger } from './utils/logger'
+import { policyFetch } from './network-policy'
+import {
+  getLLMProvider,
+  isCredentialHost,
+  type CredentialProvider,
+  type LLMProvider
+} from '../shared/providers'
+import type { LLMCallOptions, LLMEndpoint, LLMStreamPart } from './types'
+
+// Requests per rolling minute, calls beyond that wait for a slot instead of failing
+const REQUESTS_PER_MINUTE: Record<LLMProvider, number> = {
+  openai: 60,
+  openrouter: 60,
+  ollama: Infinity
+}
+const RATE_WINDOW_MS = 60 * 1000
+
+const recentRequests = new Map<LLMProvider, number[]>()
+
+const wait = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        reject(signal.reason)
+      },
+      { once: true }
+    )
+  })
+
+async function acquireSlot(provider: LLMProvider, signal: AbortSignal): Promise<void> {
+  for (;;) {
+    const now = Date.now()
+    const recent = (recentRequests.get(provider) ?? []).filter(
+      (time) => now - time < RATE_WINDOW_MS
+    )
+    if (recent.length < REQUESTS_PER_MINUTE[provider]) {
+      recentRequests.set(provider, [...recent, now])
+      return
+    }
+    const delay = recent[0] + RATE_WINDOW_MS - now
+    logger.info(`Rate limit reached for ${provider}, waiting ${delay}ms`)
+    await wait(delay, signal)
+  }
+}
+
+const toStreamPart = (part: LanguageModelV1StreamPart): LLMStreamPart => {
+  switch (part.type) {
+    case 'response-metadata':
+      return { ...part, timestamp: part.timestamp?.getTime() }
+    case 'finish':
+      return { type: 'finish', finishReason: part.finishReason, usage: part.usage }
+    case 'error':
+      return {
+        type: 'error',
+        error: part.error instanceof Error ? part.error.message : String(part.error)
+      }
+    default:
+      return part
+  }
+}
+
+/**
+ * Streams a language model call for the renderer. The key never leaves the main process,
+ * every request goes through the network policy and calls are rate limited per provider.
+ * Parts are handed to `onPart` as they arrive, the promise settles once the stream ends.
+ */
+export async function streamChat(
+  endpoint: LLMEndpoint,
+  options: LLMCallOptions,
+  getKey: (provider: CredentialProvider) => Promise<string | null>,
+  onPart: (part: LLMStreamPart) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const provider = getLLMProvider(endpoint)
+  await acquireSlot(provider, signal)
+
+  // The renderer picks the base URL, so a stored key only goes along to its provider's own
+  // host. Other OpenAI compatible servers are called without one.
+  const key = isCredentialHost(provider, endpoint.baseUrl) ? await getKey(provider) : null
+
+  const openai = createOpenAI({
+    apiKey: key ?? '',
+    baseURL: endpoint.baseUrl,
+    fetch: (input, init) =>
+      policyFetch(provider, input instanceof Request ? input.url : String(input), init)
+  })
+
+  const started = Date.now()
+  const { stream } = await openai(endpoint.model).doStream({ ...options, abortSignal: signal })
+  const reader = stream.getReader()
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      if (value.type === 'finish') {
+        logger.info(
+          `${provider} ${endpoint.model} finished in ${Date.now() - started}ms ` +
+            `(${value.usage.promptTokens} prompt, ${value.usage.completionTokens} completion tokens)`
+        )
+      }
+      onPart(toStreamPart(value))
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
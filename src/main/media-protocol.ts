@@ -0,0 +1,75 @@
+import fs from 'fs'
+import path from 'path'
+import { Readable } from 'stream'
+import { app, protocol } from 'electron'
+import SettingsStore from './settings'
+import { findRootForPath } from './index-roots'
+
+// media://local/<encoded absolute path>, see mediaUrl() in the renderer
+const MEDIA_SCHEME = 'media'
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4'
+}
+
+/**
+ * Lets the renderer stream recordings from the media scheme. Has to run before the app is
+ * ready.
+ */
+export function registerMediaScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    { scheme: MEDIA_SCHEME, privileges: { secure: true, stream: true, supportFetchAPI: true } }
+  ])
+}
+
+const toBody = (stream: fs.ReadStream): BodyInit =>
+  Readable.toWeb(stream) as unknown as ReadableStream
+
+/**
+ * Serves local audio and video files to the players in search results, answering byte
+ * range requests so they can seek to the moment a phrase was said. Only recordings the
+ * indexer would read are served, anything outside the index roots is forbidden.
+ */
+export function handleMediaProtocol(): void {
+  protocol.handle(MEDIA_SCHEME, async (request) => {
+    const filePath = decodeURIComponent(new URL(request.url).pathname.slice(1))
+    const type = MEDIA_TYPES[path.extname(filePath).toLowerCase()]
+    const stats = type ? await fs.promises.stat(filePath).catch(() => null) : null
+    if (!type || !stats?.isFile()) {
+      return new Response(null, { status: 404 })
+    }
+    const settings = await SettingsStore.getInstance(app.getPath('userData'))
+    if (!findRootForPath(settings.get('indexRoots'), filePath, stats.size)) {
+      return new Response(null, { status: 403 })
+    }
+
+    const headers = { 'Content-Type': type, 'Accept-Ranges': 'bytes' }
+    const range = request.headers.get('Range')?.match(/^bytes=(\d*)-(\d*)$/)
+    if (!range) {
+      return new Response(toBody(fs.createReadStream(filePath)), {
+        headers: { ...headers, 'Content-Length': String(stats.size) }
+      })
+    }
+
+    // "bytes=-500" asks for the last 500 bytes, "bytes=500-" for everything from 500
+    const start = range[1] ? Number(range[1]) : Math.max(stats.size - Number(range[2]), 0)
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), stats.size - 1) : stats.size - 1
+    if (start > end) {
+      return new Response(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${stats.size}` }
+      })
+    }
+    return new Response(toBody(fs.createReadStream(filePath, { start, end })), {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Length': String(end - start + 1),
+        'Content-Range': `bytes ${start}-${end}/${stats.size}`
+      }
+    })
+  })
+}
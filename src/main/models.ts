@@ -0,0 +1,131 @@
+import { v4 as uuidv4 } from 'uuid'
+import { embed, setEmbeddingModel, setRerankerModel } from './embeddings'
+import { logger } from './utils/logger'
+import type SearchDB from './db'
+import type IndexingQueue from './indexing-queue'
+import type SettingsStore from './settings'
+import type { EmbeddingModel, IndexEmbeddingInfo } from './types'
+
+export const DEFAULT_EMBEDDING_MODEL_ID = 'local:thenlper/gte-base'
+export const DEFAULT_RERANKER_MODEL = 'jinaai/jina-reranker-v1-tiny-en'
+
+/**
+ * Embedding models shipped with the app. Local models run in the vectorizer worker
+ * through transformers.js, OpenAI-compatible ones are called over HTTP.
+ */
+export const BUILTIN_EMBEDDING_MODELS: EmbeddingModel[] = [
+  {
+    id: DEFAULT_EMBEDDING_MODEL_ID,
+    name: 'GTE Base (local)',
+    provider: 'local',
+    model: 'thenlper/gte-base',
+    dimension: 768
+  },
+  {
+    id: 'local:Xenova/bge-small-en-v1.5',
+    name: 'BGE Small EN v1.5 (local)',
+    provider: 'local',
+    model: 'Xenova/bge-small-en-v1.5',
+    dimension: 384
+  },
+  {
+    id: 'local:Xenova/all-MiniLM-L6-v2',
+    name: 'MiniLM L6 v2 (local)',
+    provider: 'local',
+    model: 'Xenova/all-MiniLM-L6-v2',
+    dimension: 384
+  },
+  {
+    id: 'ollama:nomic-embed-text',
+    name: 'Nomic Embed Text (Ollama)',
+    provider: 'openai-compatible',
+    model: 'nomic-embed-text',
+    baseUrl: 'http://localhost:11434/v1',
+    dimension: 768
+  }
+]
+
+// Cross-encoders usable by the reranker worker
+export const RERANKER_MODELS = [
+  DEFAULT_RERANKER_MODEL,
+  'jinaai/jina-reranker-v1-turbo-en',
+  'Xenova/bge-reranker-base'
+]
+
+// Indexes built before model tracking always used the default embedder
+const LEGACY_INDEX_INFO: IndexEmbeddingInfo = {
+  modelId: DEFAULT_EMBEDDING_MODEL_ID,
+  dimension: 768
+}
+
+export function listEmbeddingModels(settings: SettingsStore): EmbeddingModel[] {
+  return [...BUILTIN_EMBEDDING_MODELS, ...settings.get('customEmbeddingModels')]
+}
+
+/**
+ * Resolves the model selected in settings, falling back to the default when it was removed
+ */
+export function getEmbeddingModel(settings: SettingsStore): EmbeddingModel {
+  const models = listEmbeddingModels(settings)
+  return (
+    models.find((model) => model.id === settings.get('embeddingModel')) ??
+    models.find((model) => model.id === DEFAULT_EMBEDDING_MODEL_ID)!
+  )
+}
+
+export function createEmbeddingEndpoint(
+  options: Pick<EmbeddingModel, 'name' | 'model' | 'baseUrl' | 'dimension'>
+): EmbeddingModel {
+  return {
+    ...options,
+    id: `custom:${uuidv4()}`,
+    provider: 'openai-compatible',
+    baseUrl: options.baseUrl?.replace(/\/+$/, '')
+  }
+}
+
+/**
+ * Points the embedder and reranker at the models selected in settings. When the index was
+ * built with another embedding model or dimension it is dropped and every root is queued
+ * for a background re-embed, so vectors from different models are never mixed. Returns
+ * without waiting for it, the indexing queue reports its progress.
+ * @param afterReset Re-adds content that isn't read from the index roots, such as saved chats
+ * @returns Whether a full re-embed was started
+ */
+export async function activateModels(
+  settings: SettingsStore,
+  searchDB: SearchDB,
+  indexingQueue: IndexingQueue,
+  afterReset?: () => Promise<void>
+): Promise<boolean> {
+  const model = getEmbeddingModel(settings)
+  setEmbeddingModel(model)
+  setRerankerModel(settings.get('rerankerModel'))
+
+  // Remote endpoints don't always advertise their dimension, ask them once
+  const dimension = model.dimension ?? ((await embed('dimension probe')) as number[]).length
+  const target: IndexEmbeddingInfo = { modelId: model.id, dimension }
+
+  const current =
+    searchDB.getEmbeddingInfo() ??
+    (searchDB.getIndexedPaths().length > 0 ? LEGACY_INDEX_INFO : null)
+  if (!current) {
+    await searchDB.setEmbeddingInfo(target)
+    return false
+  }
+  if (current.modelId === target.modelId && current.dimension === target.dimension) {
+    return false
+  }
+
+  logger.info(
+    `Embedding model changed from ${current.modelId} (${current.dimension}d) to ` +
+      `${target.modelId} (${target.dimension}d), re-embedding all files`
+  )
+  indexingQueue
+    .reindexAll(settings.get('indexRoots'), async () => {
+      await searchDB.resetIndex(target)
+      await afterReset?.()
+    })
+    .catch((error) => logger.error('Error re-embedding the index:', error))
+  return true
+}
@@ -0,0 +1,67 @@
+import { EventEmitter } from 'events'
+import { logger } from './utils/logger'
+import { isLocalUrl } from '../shared/providers'
+import type { NetworkEvent, RemoteService } from './types'
+
+// Set from settings at startup and whenever the renderer toggles private mode
+let privateMode = false
+const events = new EventEmitter()
+
+export class PrivateModeError extends Error {
+  constructor(service: RemoteService, host: string) {
+    super(`Private mode blocked a request to ${service} (${host})`)
+    this.name = 'PrivateModeError'
+  }
+}
+
+export const setPrivateMode = (enabled: boolean): void => {
+  privateMode = enabled
+  logger.info(`Private mode ${enabled ? 'enabled' : 'disabled'}`)
+}
+
+export const isPrivateMode = (): boolean => privateMode
+
+/**
+ * Gate for requests made through client libraries that do their own fetching. Reports the
+ * call and throws a `PrivateModeError` when private mode forbids it.
+ */
+export function checkRemote(service: RemoteService, url: string): void {
+  if (isLocalUrl(url)) return
+
+  const event: NetworkEvent = {
+    service,
+    host: new URL(url).host,
+    blocked: privateMode,
+    timestamp: Date.now()
+  }
+  events.emit('request', event)
+  if (event.blocked) {
+    logger.warn(`Private mode blocked a request to ${service} (${event.host})`)
+    throw new PrivateModeError(service, event.host)
+  }
+}
+
+/**
+ * `fetch` for every outbound request of the search, reader and LLM paths. Local endpoints
+ * always pass, anything else is blocked in private mode and reported otherwise, so the UI
+ * can show which remote services a query touched.
+ */
+export async function policyFetch(
+  service: RemoteService,
+  url: string,
+  init?: RequestInit
+): Promise<Response> {
+  checkRemote(service, url)
+  return fetch(url, init)
+}
+
+/**
+ * Subscribes to remote requests, blocked or not
+ * @returns Function removing the listener
+ */
+export function onNetworkEvent(listener: (event: NetworkEvent) => void): () => void {
+  events.on('request', listener)
+  return (): void => {
+    events.off('request', listener)
+  }
+}
@@ -0,0 +1,215 @@
+import path from 'path'
+import fs from 'fs/promises'
+import { v4 as uuidv4 } from 'uuid'
+import { logger } from './utils/logger'
+import type { StickyNoteRecord } from './types'
+
+const ATTACHMENTS_DIR = 'attachments'
+const NOTES_SUBDIR = 'Notes' // Inside the index root notes are exported to
+
+const IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+}
+
+export type NoteInput = Omit<StickyNoteRecord, 'createdAt' | 'updatedAt' | 'savedPath'>
+
+const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+
+// First markdown heading, falling back to the note's title or source file name
+const noteTitle = (note: StickyNoteRecord): string =>
+  note.text.match(/^#{1,6}\s+(.+)$/m)?.[1] ?? note.title ?? path.parse(note.sourcePath).name
+
+/**
+ * Sticky notes and their image attachments, one directory per note in `alBERT_notes/`
+ */
+class NotesStore {
+  private static instance: NotesStore | null = null
+  private notes = new Map<string, StickyNoteRecord>()
+  private notesPath: string
+
+  private constructor(notesPath: string) {
+    this.notesPath = notesPath
+  }
+
+  public static async getInstance(userDataPath: string): Promise<NotesStore> {
+    if (!NotesStore.instance) {
+      const store = new NotesStore(path.join(userDataPath, 'alBERT_notes'))
+      await store.load()
+      NotesStore.instance = store
+    }
+    return NotesStore.instance
+  }
+
+  private async load(): Promise<void> {
+    await fs.mkdir(this.notesPath, { recursive: true })
+    const entries = await fs.readdir(this.notesPath, { withFileTypes: true })
+    for (const entry of entries.filter((entry) => entry.isDirectory())) {
+      try {
+        const note: StickyNoteRecord = JSON.parse(
+          await fs.readFile(path.join(this.notesPath, entry.name, 'note.json'), 'utf-8')
+        )
+        this.notes.set(note.id, note)
+      } catch (error) {
+        logger.error(`Error loading note ${entry.name}:`, error)
+      }
+    }
+    logger.info(`Loaded ${this.notes.size} sticky notes`)
+  }
+
+  public list(): StickyNoteRecord[] {
+    return Array.from(this.notes.values()).sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  /**
+   * Creates or updates a note. Notes already exported to an index root are written there
+   * again so the indexed copy follows the edits.
+   */
+  public async save(input: NoteInput): Promise<StickyNoteRecord> {
+    const existing = this.notes.get(input.id)
+    const now = Date.now()
+    const note: StickyNoteRecord = {
+      ...existing,
+      ...input,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: existing && existing.text === input.text ? existing.updatedAt : now
+    }
+
+    await this.persist(note)
+    if (note.savedPath && existing?.text !== note.text) {
+      await this.writeMarkdown(note, note.savedPath)
+    }
+    return note
+  }
+
+  /**
+   * Removes a note and its attachments. Markdown copies in index roots are left in place.
+   */
+  public async delete(noteId: string): Promise<void> {
+    this.notes.delete(noteId)
+    await fs.rm(this.noteDir(noteId), { recursive: true, force: true })
+  }
+
+  /**
+   * Writes the note as a markdown file under `<root>/Notes/`, with its attachments next to it
+   * @returns The note with `savedPath` set
+   */
+  public async exportToRoot(noteId: string, rootPath: string): Promise<StickyNoteRecord> {
+    const note = this.notes.get(noteId)
+    if (!note) {
+      throw new Error(`Note not found: ${noteId}`)
+    }
+
+    const savedPath = note.savedPath ?? (await this.uniqueNotePath(note, rootPath))
+    await this.writeMarkdown(note, savedPath)
+
+    const saved = { ...note, savedPath }
+    await this.persist(saved)
+    logger.info(`Saved note ${noteId} to ${savedPath}`)
+    return saved
+  }
+
+  /**
+   * Stores an image pasted into a note as a real file
+   * @param dataUrl The `data:` URL produced by the editor's upload handler
+   * @returns The relative path the note's markdown links to
+   */
+  public async addAttachment(noteId: string, name: string, dataUrl: string): Promise<string> {
+    const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/s)
+    if (!match || !IMAGE_TYPES[match[1]]) {
+      throw new Error('Unsupported attachment, expected a base64 image')
+    }
+
+    const base = slugify(path.parse(name).name) || 'image'
+    const fileName = `${base}-${uuidv4().slice(0, 8)}.${IMAGE_TYPES[match[1]]}`
+    const dir = path.join(this.noteDir(noteId), ATTACHMENTS_DIR)
+    await fs.mkdir(dir, { recursive: true })
+    await fs.writeFile(path.join(dir, fileName), Buffer.from(match[2], 'base64'))
+    return `${ATTACHMENTS_DIR}/${fileName}`
+  }
+
+  /**
+   * Reads an attachment back as a data URL for the editor preview
+   */
+  public async readAttachment(noteId: string, src: string): Promise<string> {
+    const dir = path.join(this.noteDir(noteId), ATTACHMENTS_DIR)
+    const filePath = path.resolve(this.noteDir(noteId), src)
+    if (!filePath.startsWith(dir + path.sep)) {
+      throw new Error(`Invalid attachment path: ${src}`)
+    }
+
+    const extension = path.extname(filePath).slice(1)
+    const mimeType =
+      Object.keys(IMAGE_TYPES).find((type) => IMAGE_TYPES[type] === extension) ??
+      'application/octet-stream'
+    const content = await fs.readFile(filePath)
+    return `data:${mimeType};base64,${content.toString('base64')}`
+  }
+
+  private noteDir(noteId: string): string {
+    return path.join(this.notesPath, path.basename(noteId))
+  }
+
+  private async persist(note: StickyNoteRecord): Promise<void> {
+    this.notes.set(note.id, note)
+    try {
+      await fs.mkdir(this.noteDir(note.id), { recursive: true })
+      await fs.writeFile(
+        path.join(this.noteDir(note.id), 'note.json'),
+        JSON.stringify(note, null, 2),
+        'utf-8'
+      )
+    } catch (error) {
+      logger.error(`Error persisting note ${note.id}:`, error)
+      throw error
+    }
+  }
+
+  private async uniqueNotePath(note: StickyNoteRecord, rootPath: string): Promise<string> {
+    const dir = path.join(rootPath, NOTES_SUBDIR)
+    const base = slugify(noteTitle(note)) || 'note'
+    for (const name of [base, `${base}-${note.id.slice(0, 8)}`]) {
+      const candidate = path.join(dir, `${name}.md`)
+      const exists = await fs
+        .access(candidate)
+        .then(() => true)
+        .catch(() => false)
+      if (!exists) return candidate
+    }
+    return path.join(dir, `${base}-${note.id}.md`)
+  }
+
+  /**
+   * Writes the markdown and copies linked attachments into `attachments/` beside it, so the
+   * relative links keep working outside the app
+   */
+  private async writeMarkdown(note: StickyNoteRecord, filePath: string): Promise<void> {
+    const dir = path.dirname(filePath)
+    await fs.mkdir(dir, { recursive: true })
+
+    const links = note.text.match(new RegExp(`${ATTACHMENTS_DIR}/[^)\\s"']+`, 'g')) ?? []
+    if (links.length > 0) {
+      await fs.mkdir(path.join(dir, ATTACHMENTS_DIR), { recursive: true })
+      for (const fileName of new Set(links.map((link) => path.basename(link)))) {
+        await fs
+          .copyFile(
+            path.join(this.noteDir(note.id), ATTACHMENTS_DIR, fileName),
+            path.join(dir, ATTACHMENTS_DIR, fileName)
+          )
+          .catch((error) => logger.error(`Error copying attachment ${fileName}:`, error))
+      }
+    }
+
+    await fs.writeFile(filePath, note.text, 'utf-8')
+  }
+}
+
+export default NotesStore
@@ -0,0 +1,192 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { gunzipSync } from 'zlib'
+import { parentPort } from 'worker_threads'
+import sharp from 'sharp'
+import { getDocument, OPS } from 'pdfjs-dist/legacy/build/pdf'
+import type { OCREngine } from 'tesseract-wasm'
+
+// Bundled with the app so OCR never downloads anything
+const MODEL_PATH = '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz'
+// Smaller images in a PDF are logos, bullets and the like rather than scanned pages
+const MIN_IMAGE_SIDE = 100
+
+// pdf.js ImageKind values
+const GRAYSCALE_1BPP = 1
+const RGB_24BPP = 2
+
+interface RgbaImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+interface PdfImage {
+  width: number
+  height: number
+  kind?: number
+  data?: Uint8ClampedArray
+}
+
+interface RecognizedPage {
+  page: number
+  text: string
+  confidence: number // Mean word confidence between 0 and 1
+  words: number
+}
+
+let engine: OCREngine | null = null
+
+async function initializeEngine(): Promise<OCREngine> {
+  if (!engine) {
+    const { createOCREngine, supportsFastBuild } = await import('tesseract-wasm')
+
+    const wasmDirectory = path.dirname(require.resolve('tesseract-wasm'))
+    const wasmBinary = await fs.readFile(
+      path.join(
+        wasmDirectory,
+        supportsFastBuild() ? 'tesseract-core.wasm' : 'tesseract-core-fallback.wasm'
+      )
+    )
+    engine = await createOCREngine({ wasmBinary })
+    engine.loadModel(gunzipSync(await fs.readFile(require.resolve(MODEL_PATH))))
+    console.log('OCR engine initialized')
+  }
+  return engine
+}
+
+/**
+ * Text of the images making up one page, with the confidence of its words
+ */
+async function recognize(page: number, images: RgbaImage[]): Promise<RecognizedPage> {
+  const ocr = await initializeEngine()
+  const texts: string[] = []
+  let confidenceSum = 0
+  let words = 0
+
+  for (const image of images) {
+    // The engine only reads the size and pixels, so a plain RGBA buffer stands in for ImageData
+    ocr.loadImage(image as ImageData)
+    const boxes = ocr.getTextBoxes('word')
+    texts.push(ocr.getText().trim())
+    boxes.forEach((box) => (confidenceSum += box.confidence))
+    words += boxes.length
+  }
+  ocr.clearImage()
+
+  return {
+    page,
+    text: texts.filter(Boolean).join('\n\n'),
+    confidence: words > 0 ? confidenceSum / words : 0,
+    words
+  }
+}
+
+/**
+ * Every page of a PNG, JPEG or TIFF file, TIFFs holding one page per frame
+ */
+async function recognizeImage(filePath: string): Promise<RecognizedPage[]> {
+  const { pages = 1 } = await sharp(filePath).metadata()
+  const results: RecognizedPage[] = []
+  for (let page = 0; page < pages; page++) {
+    const { data, info } = await sharp(filePath, { page })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+    const image = { width: info.width, height: info.height, data: new Uint8ClampedArray(data) }
+    results.push(await recognize(page + 1, [image]))
+  }
+  return results
+}
+
+// Converts decoded pdf.js image data to the RGBA layout the OCR engine reads
+function toRgba({ width, height, kind, data }: PdfImage): RgbaImage | null {
+  if (!data) return null
+  const rgba = new Uint8ClampedArray(width * height * 4)
+
+  if (kind === GRAYSCALE_1BPP) {
+    // One bit per pixel, rows padded to whole bytes and set bits being white
+    const rowBytes = (width + 7) >> 3
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const white = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7))
+        rgba.fill(white ? 255 : 0, (y * width + x) * 4, (y * width + x) * 4 + 3)
+      }
+    }
+    for (let i = 3; i < rgba.length; i += 4) rgba[i] = 255
+  } else if (kind === RGB_24BPP) {
+    for (let source = 0, target = 0; target < rgba.length; source += 3, target += 4) {
+      rgba[target] = data[source]
+      rgba[target + 1] = data[source + 1]
+      rgba[target + 2] = data[source + 2]
+      rgba[target + 3] = 255
+    }
+  } else {
+    rgba.set(data.subarray(0, rgba.length))
+  }
+  return { width, height, data: rgba }
+}
+
+/**
+ * Scanned pages of a PDF, reading the images each page paints
+ * @param pages Page numbers starting at 1, usually the ones without a text layer
+ */
+async function recognizePdf(filePath: string, pages: number[]): Promise<RecognizedPage[]> {
+  const data = new Uint8Array(await fs.readFile(filePath))
+  const pdf = await getDocument({ data, isEvalSupported: false }).promise
+  try {
+    const results: RecognizedPage[] = []
+    for (const pageNumber of pages) {
+      const page = await pdf.getPage(pageNumber)
+      const { fnArray, argsArray } = await page.getOperatorList()
+
+      const images: RgbaImage[] = []
+      for (let i = 0; i < fnArray.length; i++) {
+        let image: PdfImage | null = null
+        if (fnArray[i] === OPS.paintInlineImageXObject) {
+          image = argsArray[i][0]
+        } else if (fnArray[i] === OPS.paintImageXObject) {
+          const name: string = argsArray[i][0]
+          // Images shared between pages are kept with the document's common objects
+          const objects = name.startsWith('g_') ? page.commonObjs : page.objs
+          image = await new Promise<PdfImage>((resolve) => objects.get(name, resolve))
+        }
+        if (!image || Math.min(image.width, image.height) < MIN_IMAGE_SIDE) continue
+        const rgba = toRgba(image)
+        if (rgba) images.push(rgba)
+      }
+      page.cleanup()
+
+      results.push(await recognize(pageNumber, images))
+    }
+    return results
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+if (parentPort) {
+  console.log('OCR worker initialized')
+
+  parentPort.on('message', async (message) => {
+    try {
+      let pages: RecognizedPage[]
+      if (message.type === 'image') {
+        pages = await recognizeImage(message.path)
+      } else if (message.type === 'pdf') {
+        pages = await recognizePdf(message.path, message.pages)
+      } else {
+        return
+      }
+      parentPort?.postMessage({ id: message.id, type: 'result', pages })
+    } catch (error) {
+      parentPort?.postMessage({
+        id: message.id,
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+}
+
+export type {} // Keep TypeScript happy
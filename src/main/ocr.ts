@@ -0,0 +1,48 @@
+import { join } from 'path'
+import { WorkerClient } from './worker-client'
+
+// A single request covers a whole image file or one PDF page, large scans take a while
+const OCR_TIMEOUT_MS = 10 * 60 * 1000
+
+const worker = new WorkerClient('OCR', join(__dirname, 'ocr.js'), OCR_TIMEOUT_MS)
+
+export interface RecognizedPage {
+  page: number // Starting at 1
+  text: string
+  confidence: number // Mean word confidence between 0 and 1
+  words: number
+}
+
+/**
+ * Recognizes the text of a PNG, JPEG or TIFF file, one result per TIFF page
+ */
+export const recognizeImage = async (filePath: string): Promise<RecognizedPage[]> => {
+  const { pages } = await worker.request<{ pages: RecognizedPage[] }>('image', { path: filePath })
+  return pages
+}
+
+/**
+ * Recognizes the scanned images on a page of a PDF
+ * @param page Page number, starting at 1
+ */
+export const recognizePdfPage = async (filePath: string, page: number): Promise<RecognizedPage> => {
+  const { pages } = await worker.request<{ pages: RecognizedPage[] }>('pdf', {
+    path: filePath,
+    pages: [page]
+  })
+  return pages[0]
+}
+
+/**
+ * Confidence of a whole document, weighting every page by its number of words
+ */
+export const meanConfidence = (pages: RecognizedPage[]): number | undefined => {
+  const words = pages.reduce((sum, page) => sum + page.words, 0)
+  return words > 0
+    ? pages.reduce((sum, page) => sum + page.confidence * page.words, 0) / words
+    : undefined
+}
+
+export const cleanup = (): void => {
+  worker.terminate()
+}
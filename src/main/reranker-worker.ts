@@ -1,20 +1,23 @@
 import { parentPort } from 'worker_threads'
 
+const DEFAULT_MODEL = 'jinaai/jina-reranker-v1-tiny-en'
+
 let tokenizer: any = null
 let model: any = null
+let loadedModel: string | null = null
 
-async function initializeModel() {
-  if (!tokenizer || !model) {
+async function initializeModel(model_id: string) {
+  if (!tokenizer || !model || loadedModel !== model_id) {
     const { AutoModelForSequenceClassification, AutoTokenizer } = await import(
       '@xenova/transformers'
     )
-    const model_id = 'jinaai/jina-reranker-v1-tiny-en'
 
     tokenizer = await AutoTokenizer.from_pretrained(model_id)
     model = await AutoModelForSequenceClassification.from_pretrained(model_id, {
       quantized: false
     })
-    console.log('Reranker model initialized')
+    loadedModel = model_id
+    console.log(`Reranker model ${model_id} initialized`)
   }
 }
 
@@ -29,12 +32,18 @@ interface RankResult {
   text?: string
 }
 
+/**
+ * Scores every document against the query and returns them best first
+ * @returns One result per document, `corpus_id` being its index in `documents`
+ */
 async function rank(
   query: string,
-  documents: string[]
+  documents: string[],
+  { top_k, return_documents = false }: RankOptions = {},
+  model_id: string = DEFAULT_MODEL
 ): Promise<RankResult[]> {
   try {
-    await initializeModel()
+    await initializeModel(model_id)
 
     // Create array of queries, one for each document
     const queries = new Array(documents.length).fill(query)
@@ -51,8 +60,17 @@ async function rank(
 
     // Convert logits to probabilities using sigmoid
     // sigmoid(x) = 1 / (1 + e^(-x))
-    const scores = logits.sigmoid().tolist()
-    return scores
+    // The model has a single output label, so each row holds one score
+    const scores: number[][] = logits.sigmoid().tolist()
+    const results = scores
+      .map(([score], corpus_id) => ({
+        corpus_id,
+        score,
+        ...(return_documents ? { text: documents[corpus_id] } : {})
+      }))
+      .sort((a, b) => b.score - a.score)
+
+    return top_k !== undefined ? results.slice(0, top_k) : results
   } catch (error) {
     console.error('Reranking error:', error)
     throw error
@@ -65,12 +83,13 @@ if (parentPort) {
   parentPort.on('message', async (message) => {
     if (message.type === 'rerank') {
       try {
-        const { query, documents } = JSON.parse(message.text)
+        const { query, documents, options } = JSON.parse(message.text)
 
-        const reranked = await rank(query, documents)
-        parentPort?.postMessage({ type: 'result', reranked })
+        const reranked = await rank(query, documents, options, message.model ?? undefined)
+        parentPort?.postMessage({ id: message.id, type: 'result', reranked })
       } catch (error) {
         parentPort?.postMessage({
+          id: message.id,
           type: 'error',
           error: error instanceof Error ? error.message : 'Unknown error'
         })
@@ -0,0 +1,81 @@
+import path from 'path'
+import fs from 'fs/promises'
+import { logger } from './utils/logger'
+import { createIndexRoot, DEFAULT_ROOT_PATH } from './index-roots'
+import { DEFAULT_EMBEDDING_MODEL_ID, DEFAULT_RERANKER_MODEL } from './models'
+import { DEFAULT_WEB_SEARCH_PROVIDERS } from './web-search'
+import type { EmbeddingModel, IndexRoot, RerankSettings, WebSearchProviderConfig } from './types'
+
+export interface AppSettings {
+  indexRoots: IndexRoot[]
+  rerank: RerankSettings
+  embeddingModel: string
+  customEmbeddingModels: EmbeddingModel[]
+  rerankerModel: string
+  privateMode: boolean // Blocks every remote request, see network-policy.ts
+  webSearch: WebSearchProviderConfig[] // Queried in this order
+}
+
+const defaultSettings = (): AppSettings => ({
+  indexRoots: [createIndexRoot(DEFAULT_ROOT_PATH)],
+  rerank: { enabled: true, topK: 10, minScore: 0.05 },
+  embeddingModel: DEFAULT_EMBEDDING_MODEL_ID,
+  customEmbeddingModels: [],
+  rerankerModel: DEFAULT_RERANKER_MODEL,
+  privateMode: false,
+  webSearch: DEFAULT_WEB_SEARCH_PROVIDERS
+})
+
+/**
+ * Main-process settings persisted as JSON next to the search index
+ */
+class SettingsStore {
+  private static instance: SettingsStore | null = null
+  private settings: AppSettings
+  private settingsPath: string
+
+  private constructor(settingsPath: string, settings: AppSettings) {
+    this.settingsPath = settingsPath
+    this.settings = settings
+  }
+
+  public static async getInstance(userDataPath: string): Promise<SettingsStore> {
+    if (!SettingsStore.instance) {
+      const settingsPath = path.join(userDataPath, 'alBERT_settings.json')
+      SettingsStore.instance = new SettingsStore(
+        settingsPath,
+        await SettingsStore.load(settingsPath)
+      )
+    }
+    return SettingsStore.instance
+  }
+
+  private static async load(settingsPath: string): Promise<AppSettings> {
+    try {
+      const content = await fs.readFile(settingsPath, 'utf-8')
+      return { ...defaultSettings(), ...JSON.parse(content) }
+    } catch (error) {
+      logger.info('No existing settings found, using defaults.')
+      return defaultSettings()
+    }
+  }
+
+  public get<K extends keyof AppSettings>(key: K): AppSettings[K] {
+    return this.settings[key]
+  }
+
+  public async set<K extends keyof AppSettings>(key: K, value: AppSettings[K]): Promise<void> {
+    this.settings = { ...this.settings, [key]: value }
+    await this.persist()
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await fs.writeFile(this.settingsPath, JSON.stringify(this.settings, null, 2), 'utf-8')
+    } catch (error) {
+      logger.error('Error persisting settings:', error)
+    }
+  }
+}
+
+export default SettingsStore
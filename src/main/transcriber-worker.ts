@@ -0,0 +1,129 @@
+import { spawn } from 'child_process'
+import { parentPort } from 'worker_threads'
+import ffmpegPath from 'ffmpeg-static'
+import type {
+  AutomaticSpeechRecognitionOutput,
+  AutomaticSpeechRecognitionPipeline
+} from '@xenova/transformers'
+
+const DEFAULT_MODEL = 'Xenova/whisper-base'
+const SAMPLING_RATE = 16000 // Whisper listens to 16kHz mono
+
+let transcriber: AutomaticSpeechRecognitionPipeline | null = null
+let loadedModel: string | null = null
+
+async function initializeTranscriber(
+  model_id: string
+): Promise<AutomaticSpeechRecognitionPipeline> {
+  if (!transcriber || loadedModel !== model_id) {
+    const { pipeline } = await import('@xenova/transformers')
+
+    transcriber = await pipeline('automatic-speech-recognition', model_id, {
+      quantized: false
+    })
+    loadedModel = model_id
+    console.log(`Transcription model ${model_id} initialized`)
+  }
+  return transcriber
+}
+
+interface TranscriptSegment {
+  start: number // Seconds from the start of the recording
+  end: number
+  text: string
+}
+
+/**
+ * Decodes the audio track of a recording to 16kHz mono samples, the way the Python
+ * pipelines read files through ffmpeg
+ */
+function decodeAudio(filePath: string): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    if (!ffmpegPath) {
+      reject(new Error('ffmpeg is not available on this platform'))
+      return
+    }
+    // Packaged builds keep the binary next to the asar archive, which cannot be executed from
+    const ffmpeg = spawn(ffmpegPath.replace('app.asar', 'app.asar.unpacked'), [
+      '-nostdin',
+      '-loglevel',
+      'error',
+      '-i',
+      filePath,
+      '-vn',
+      '-ac',
+      '1',
+      '-ar',
+      String(SAMPLING_RATE),
+      '-f',
+      'f32le',
+      'pipe:1'
+    ])
+
+    const chunks: Buffer[] = []
+    let stderr = ''
+    ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk))
+    ffmpeg.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString()))
+    ffmpeg.on('error', reject)
+    ffmpeg.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`))
+        return
+      }
+      // Copied into a buffer of its own, Float32Array needs aligned whole samples
+      const data = Buffer.concat(chunks)
+      const length = data.length - (data.length % 4)
+      resolve(new Float32Array(data.buffer.slice(data.byteOffset, data.byteOffset + length)))
+    })
+  })
+}
+
+/**
+ * Transcript of a recording in segments of a few seconds, each with its start and end time
+ */
+async function transcribe(filePath: string, model_id: string): Promise<TranscriptSegment[]> {
+  try {
+    const asr = await initializeTranscriber(model_id)
+    const audio = await decodeAudio(filePath)
+    if (audio.length === 0) return []
+
+    // Recordings longer than Whisper's 30 second window are transcribed in overlapping windows
+    const { chunks = [] } = (await asr(audio, {
+      return_timestamps: true,
+      chunk_length_s: 30,
+      stride_length_s: 5
+    })) as AutomaticSpeechRecognitionOutput
+    const duration = audio.length / SAMPLING_RATE
+    return (chunks as { timestamp: [number, number | null]; text: string }[])
+      .map(({ timestamp: [start, end], text }) => ({
+        start,
+        end: end ?? duration, // Missing for a segment cut off by the end of the recording
+        text: text.trim()
+      }))
+      .filter((segment) => segment.text.length > 0)
+  } catch (error) {
+    console.error('Transcription error:', error)
+    throw error
+  }
+}
+
+if (parentPort) {
+  console.log('Transcriber worker initialized')
+
+  parentPort.on('message', async (message) => {
+    if (message.type === 'transcribe') {
+      try {
+        const segments = await transcribe(message.path, message.model ?? DEFAULT_MODEL)
+        parentPort?.postMessage({ id: message.id, type: 'result', segments })
+      } catch (error) {
+        parentPort?.postMessage({
+          id: message.id,
+          type: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+  })
+}
+
+export type {} // Keep TypeScript happy
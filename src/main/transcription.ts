@@ -0,0 +1,31 @@
+import { join } from 'path'
+import { WorkerClient } from './worker-client'
+
+// Whole recordings are transcribed in one request on the CPU, an hour of audio takes a while
+const TRANSCRIPTION_TIMEOUT_MS = 60 * 60 * 1000
+
+const worker = new WorkerClient(
+  'Transcriber',
+  join(__dirname, 'transcriber.js'),
+  TRANSCRIPTION_TIMEOUT_MS
+)
+
+export interface TranscriptSegment {
+  start: number // Seconds from the start of the recording
+  end: number
+  text: string
+}
+
+/**
+ * Transcribes the speech in an audio or video file with Whisper, in timestamped segments
+ */
+export const transcribe = async (filePath: string): Promise<TranscriptSegment[]> => {
+  const { segments } = await worker.request<{ segments: TranscriptSegment[] }>('transcribe', {
+    path: filePath
+  })
+  return segments
+}
+
+export const cleanup = (): void => {
+  worker.terminate()
+}
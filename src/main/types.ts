@@ -1,10 +1,25 @@
 import { SearchResult as BraveSearchResult } from 'brave-search/dist/types'
+import type { LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai'
+
+export interface ChunkLocation {
+  chunkIndex: number;
+  start: number;
+  end: number;
+  page?: number; // First page or slide the chunk is on
+  section?: string; // Where the chunk is in the document, e.g. "page 14" or "Budget!A1:F20"
+  startTime?: number; // Seconds into a recording at which the chunk's words are said
+  endTime?: number;
+}
 
 export interface CommonSearchResult {
   text: string;
+  score?: number; // Reranker relevance in [0, 1], set on reranked local hits
   metadata: {
     path: string;
     title?: string;
+    author?: string;
+    pageCount?: number;
+    ocrConfidence?: number; // Between 0 and 1, only set for text recognized through OCR
     created_at: number;
     modified_at: number;
     filetype: string;
@@ -14,7 +29,177 @@ export interface CommonSearchResult {
     seen_at: number;
     sourceType?: string;
     description?: string;
+    location?: ChunkLocation;
+    provider?: string; // Web search provider that returned the hit
   };
 }
 
-export type SearchResult = CommonSearchResult | BraveSearchResult; 
\ No newline at end of file
+export interface IndexRoot {
+  id: string;
+  path: string;
+  include: string[];
+  exclude: string[];
+  maxFileSize: number;
+  ocr: boolean; // Recognize text in images and scanned PDFs, off by default as it is slow
+  transcribe?: boolean; // Transcribe recordings, off by default and missing on older roots
+}
+
+export interface FileEvent {
+  type: 'add' | 'change' | 'unlink';
+  path: string;
+}
+
+export type SearchSource = 'local' | 'web';
+
+export interface SearchFilters {
+  extensions?: string[];
+  pathPrefix?: string;
+  modifiedAfter?: number; // ms since epoch
+  modifiedBefore?: number; // ms since epoch
+  sources?: SearchSource[];
+}
+
+export interface RerankSettings {
+  enabled: boolean;
+  topK: number; // Hits kept per page after reranking
+  minScore: number; // Hits scoring below this are dropped
+}
+
+export type EmbeddingProvider = 'local' | 'openai-compatible';
+
+export interface EmbeddingModel {
+  id: string;
+  name: string;
+  provider: EmbeddingProvider;
+  model: string; // transformers.js model ID or the remote endpoint's model name
+  baseUrl?: string; // OpenAI-compatible endpoints only, e.g. http://localhost:11434/v1
+  dimension?: number; // Probed on first use when unknown
+}
+
+// Recorded next to the index so vectors from different models are never mixed
+export interface IndexEmbeddingInfo {
+  modelId: string;
+  dimension: number;
+}
+
+export interface SearchPage {
+  limit?: number;
+  offset?: number;
+}
+
+export type SearchResult = CommonSearchResult | BraveSearchResult; 
+
+// Remote services the main process talks to, see network-policy.ts
+export type RemoteService =
+  | 'openrouter'
+  | 'openai'
+  | 'ollama'
+  | 'brave'
+  | 'perplexity'
+  | 'searxng'
+  | 'web'
+  | 'embeddings';
+
+export interface NetworkEvent {
+  service: RemoteService;
+  host: string; // Only the host is reported, never the full URL with the query
+  blocked: boolean; // True when private mode stopped the request
+  timestamp: number;
+}
+
+// OpenAI compatible endpoint an llm.chat request goes to, keys are looked up in main
+export interface LLMEndpoint {
+  baseUrl: string;
+  model: string;
+  modelType: 'openai' | 'ollama';
+}
+
+// Call options of the renderer's model, without what cannot cross IPC
+export type LLMCallOptions = Omit<LanguageModelV1CallOptions, 'abortSignal' | 'headers'>;
+
+// Stream parts as sent over IPC: dates as epoch milliseconds, errors as messages and
+// provider metadata left out
+export type LLMStreamPart =
+  | Extract<LanguageModelV1StreamPart, { type: 'text-delta' | 'tool-call' | 'tool-call-delta' }>
+  | { type: 'response-metadata'; id?: string; timestamp?: number; modelId?: string }
+  | {
+      type: 'finish';
+      finishReason: Extract<LanguageModelV1StreamPart, { type: 'finish' }>['finishReason'];
+      usage: { promptTokens: number; completionTokens: number };
+    }
+  | { type: 'error'; error: string };
+
+export type WebSearchProviderId = 'brave' | 'searxng' | 'perplexity';
+
+// One entry per provider in settings, queried in array order
+export interface WebSearchProviderConfig {
+  id: WebSearchProviderId;
+  enabled: boolean;
+  baseUrl?: string; // Overrides the provider's default endpoint, required for SearXNG
+}
+
+// Emitted by the search.stream subscription as each source answers
+// Picture in an index root matched by its CLIP embedding rather than its text
+export interface ImageSearchResult {
+  path: string;
+  filename: string;
+  extension: string;
+  modified_at: number; // Seconds since epoch
+  score: number; // Similarity to the query, CLIP scores rarely exceed 0.4
+}
+
+export type SearchStreamEvent =
+  | {
+      type: 'results';
+      source: SearchSource;
+      results: CommonSearchResult[];
+      nextOffset: number | null; // Offset of the next page of local hits, null when exhausted
+    }
+  | { type: 'images'; results: ImageSearchResult[] } // Only with the first page of local hits
+  | { type: 'error'; source: SearchSource; message: string };
+export interface ChatSource {
+  id?: number; // Number the answer cites the source with, e.g. [1]
+  path: string;
+  title?: string;
+  description?: string;
+  relevance?: number;
+  preview?: string; // Passage the model was given
+  citations?: string[];
+  location?: ChunkLocation;
+}
+
+export interface ChatMessage {
+  question: string;
+  answer: string;
+  timestamp: number;
+  sources: ChatSource[];
+  model?: string; // LLM that produced the answer
+}
+
+// One saved conversation, stored as its own file under alBERT_chats/
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  model?: string; // LLM used for the latest answer
+  messages: ChatMessage[];
+}
+
+export interface ChatThreadSummary extends Omit<ChatThread, 'messages'> {
+  messageCount: number;
+  preview: string; // Start of the latest question
+}
+
+// A sticky note on the canvas, stored in alBERT_notes/<id>/ with its attachments
+export interface StickyNoteRecord {
+  id: string;
+  text: string; // Markdown, attachments are linked as attachments/<file>
+  position: { x: number; y: number };
+  sourcePath: string; // File or URL the note was created from
+  title?: string;
+  sourceType?: 'document' | 'web';
+  createdAt: number;
+  updatedAt: number;
+  savedPath?: string; // Markdown copy written to an index root
+}
@@ -0,0 +1,100 @@
+export interface TextChunk {
+  text: string
+  start: number
+  end: number
+}
+
+interface Segment {
+  start: number
+  end: number
+}
+
+const SENTENCE_BOUNDARY = /[.!?。？！]+["')\]]*\s*|\n\s*/g
+
+/**
+ * Splits text into sentence-like segments, keeping the character offsets of each segment
+ * so chunks can later be mapped back to their position in the source document.
+ */
+function segment(text: string, maxSize: number): Segment[] {
+  const segments: Segment[] = []
+  let start = 0
+
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = (match.index ?? 0) + match[0].length
+    if (end > start) {
+      segments.push({ start, end })
+    }
+    start = end
+  }
+  if (start < text.length) {
+    segments.push({ start, end: text.length })
+  }
+
+  // Hard-split segments that are too large to ever fit in a chunk, preferring whitespace
+  return segments.flatMap((seg) => {
+    if (seg.end - seg.start <= maxSize) return [seg]
+
+    const parts: Segment[] = []
+    let partStart = seg.start
+    while (partStart < seg.end) {
+      let partEnd = Math.min(partStart + maxSize, seg.end)
+      if (partEnd < seg.end) {
+        const lastSpace = text.lastIndexOf(' ', partEnd)
+        if (lastSpace > partStart + maxSize / 2) {
+          partEnd = lastSpace + 1
+        }
+      }
+      parts.push({ start: partStart, end: partEnd })
+      partStart = partEnd
+    }
+    return parts
+  })
+}
+
+/**
+ * Splits text into overlapping chunks on sentence boundaries.
+ * @param text Text to split
+ * @param options.chunkSize Maximum chunk length in characters
+ * @param options.chunkOverlap Number of trailing characters repeated at the start of the next chunk
+ * @returns Chunks with their start/end character offsets in the original text
+ */
+export function chunkText(
+  text: string,
+  { chunkSize = 1000, chunkOverlap = 200 }: { chunkSize?: number; chunkOverlap?: number } = {}
+): TextChunk[] {
+  const segments = segment(text, chunkSize)
+  const chunks: TextChunk[] = []
+
+  let i = 0
+  while (i < segments.length) {
+    const chunkStart = segments[i].start
+    let j = i + 1
+    while (j < segments.length && segments[j].end - chunkStart <= chunkSize) {
+      j++
+    }
+    const chunkEnd = segments[j - 1].end
+
+    // Trim whitespace but keep offsets pointing at the trimmed text
+    const raw = text.slice(chunkStart, chunkEnd)
+    const leading = raw.length - raw.trimStart().length
+    const trimmed = raw.trim()
+    if (trimmed.length > 0) {
+      chunks.push({
+        text: trimmed,
+        start: chunkStart + leading,
+        end: chunkStart + leading + trimmed.length
+      })
+    }
+
+    if (j >= segments.length) break
+
+    // Step back over trailing segments that fit in the overlap window, always making progress
+    let next = j
+    while (next - 1 > i && chunkEnd - segments[next - 1].start <= chunkOverlap) {
+      next--
+    }
+    i = next
+  }
+
+  return chunks
+}
@@ -1,6 +1,7 @@
 import { Readability } from '@mozilla/readability'
 import TurndownService from 'turndown'
 import { parseHTML } from 'linkedom'
+import { policyFetch } from '../network-policy'
 
 interface ExtractedContent {
   title: string | null
@@ -16,7 +17,7 @@ interface ExtractedContent {
 async function extractContentFromUrl(url: string): Promise<ExtractedContent> {
   try {
     // Fetch the webpage content
-    const response = await fetch(url)
+    const response = await policyFetch('web', url)
     const html = await response.text()
 
     // Parse HTML using linkedom
@@ -1,22 +1,28 @@
-import { OfficeParserConfig, parseOfficeAsync } from 'officeparser'
-import fs from 'fs/promises'
-import path from 'path'
 import { extractContentFromUrl } from './markdown'
+import { extractDocument, type ExtractOptions } from '../extractors'
 import log from '../logger'
 
 /**
  * Reads content from different sources (files or URLs) and returns their content as a string
  * @param source Path to the file or URL to be read
+ * @param options How to read local files, e.g. with OCR
  * @returns Promise containing the content as string
  */
-export async function readContent(source: string): Promise<string> {
-  // Check if the source is a URL
+export async function readContent(source: string, options: ExtractOptions = {}): Promise<string> {
+  const url = parseWebUrl(source)
+  return url ? await readWebContent(url.toString()) : await readFileContent(source, options)
+}
+
+/**
+ * The source as a web address, null for file paths. Windows drive letters and other schemes
+ * parse as URLs too, only http and https are fetched.
+ */
+function parseWebUrl(source: string): URL | null {
   try {
     const url = new URL(source)
-    return await readWebContent(url.toString())
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
   } catch {
-    // If URL parsing fails, treat as file path
-    return await readFileContent(source)
+    return null
   }
 }
 
@@ -36,27 +42,13 @@ async function readWebContent(url: string): Promise<string> {
 }
 
 /**
- * Reads content from local files
+ * Reads content from local files through the extractor registered for their type
  * @param filePath Path to the file to be read
  * @returns Promise containing the file content as string
  */
-async function readFileContent(filePath: string): Promise<string> {
-  const extension = path.extname(filePath).toLowerCase()
-  const officeExtensions = ['.docx', '.xlsx', '.pptx', '.odt', '.ods', '.odp', '.pdf']
-
+async function readFileContent(filePath: string, options: ExtractOptions): Promise<string> {
   try {
-    if (officeExtensions.includes(extension)) {
-      const config: OfficeParserConfig = {
-        newlineDelimiter: ' ',
-        ignoreNotes: true
-      }
-      return await parseOfficeAsync(filePath, config)
-    } else if (extension === '.txt' || extension === '.md' || extension === '.json') {
-      return await fs.readFile(filePath, 'utf-8')
-    } else {
-      log.warn(`Unsupported file type: ${extension}`)
-      return ''
-    }
+    return (await extractDocument(filePath, options)).text
   } catch (error) {
     log.error(`Error reading file ${filePath}:`, error)
     throw error
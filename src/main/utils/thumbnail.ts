@@ -0,0 +1,21 @@
+import sharp from 'sharp'
+
+const THUMBNAIL_SIZE = 256
+
+/**
+ * Small JPEG preview of an image file as a data URL the renderer can show directly,
+ * turned upright and with transparency on white
+ * @param size Longest side in pixels, smaller images are not enlarged
+ */
+export async function createThumbnail(
+  filePath: string,
+  size: number = THUMBNAIL_SIZE
+): Promise<string> {
+  const jpeg = await sharp(filePath)
+    .rotate()
+    .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 70 })
+    .toBuffer()
+  return `data:image/jpeg;base64,${jpeg.toString('base64')}`
+}
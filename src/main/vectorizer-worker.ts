@@ -8,21 +8,26 @@ async function initializePipeline() {
   }
 }
 
+const DEFAULT_MODEL = 'thenlper/gte-base';
+
 let embedder: any = null;
+let embedderModel: string | null = null;
 
-async function initializeEmbedder() {
-  if (!embedder) {
+async function initializeEmbedder(model: string) {
+  // Switching models replaces the pipeline, only one model is kept in memory
+  if (!embedder || embedderModel !== model) {
     await initializePipeline();
-    embedder = await pipeline('feature-extraction', 'thenlper/gte-base', {
+    embedder = await pipeline('feature-extraction', model, {
       quantized: false,
       revision: 'main',
     });
+    embedderModel = model;
   }
 }
 
-async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+async function generateEmbeddings(texts: string[], model: string): Promise<number[][]> {
   try {
-    await initializeEmbedder();
+    await initializeEmbedder(model);
     
     // Process all texts in a single batch
     const outputs = await embedder(texts, {
@@ -55,10 +60,11 @@ if (parentPort) {
             // Not JSON, use original string
           }
         }
-        const embeddings = await generateEmbeddings(textToEmbed);
-        parentPort?.postMessage({ type: 'result', embeddings });
+        const embeddings = await generateEmbeddings(textToEmbed, message.model ?? DEFAULT_MODEL);
+        parentPort?.postMessage({ id: message.id, type: 'result', embeddings });
       } catch (error) {
         parentPort?.postMessage({
+          id: message.id,
           type: 'error',
           error: error instanceof Error ? error.message : 'Unknown error'
         });
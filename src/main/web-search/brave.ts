@@ -0,0 +1,36 @@
+import type { WebSearchApiResponse } from 'brave-search/dist/types'
+import { policyFetch } from '../network-policy'
+import { readJson, toWebResult, type WebSearchProvider } from './provider'
+
+/**
+ * Brave Search web results through its REST API
+ */
+export const braveProvider: WebSearchProvider = {
+  id: 'brave',
+  name: 'Brave Search',
+  defaultBaseUrl: 'https://api.search.brave.com/res/v1',
+  credential: 'brave',
+
+  async search(query, { baseUrl, limit, signal, apiKey }) {
+    const params = new URLSearchParams({
+      q: query,
+      count: String(limit),
+      search_lang: 'en',
+      text_decorations: 'false'
+    })
+    const response = await policyFetch('brave', `${baseUrl}/web/search?${params}`, {
+      headers: { Accept: 'application/json', ...(apiKey && { 'X-Subscription-Token': apiKey }) },
+      signal
+    })
+    const data = await readJson<WebSearchApiResponse>(this, response)
+
+    return (data.web?.results ?? []).slice(0, limit).map((result) =>
+      toWebResult(this, {
+        url: result.url,
+        title: result.title,
+        text: result.description || result.title,
+        description: result.description
+      })
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { searchWeb } from '.'
+import { startWebSearchStub, type WebSearchStub } from './stub-server'
+
+describe('searchWeb', () => {
+  let stub: WebSearchStub
+
+  beforeEach(async () => {
+    stub = await startWebSearchStub()
+  })
+
+  afterEach(async () => {
+    await stub.close()
+  })
+
+  it('merges every provider in order without repeating links', async () => {
+    const results = await searchWeb('launch date', stub.providers, async () => 'key')
+
+    expect(stub.queries).toEqual(['launch date', 'launch date', 'launch date'])
+    const paths = results.map((result) => result.metadata.path)
+    expect(new Set(paths).size).toBe(paths.length)
+    expect(results[0].metadata.provider).toBe('Perplexity')
+  })
+
+  it('never reads a stored key for an endpoint on another host', async () => {
+    const getCredential = vi.fn(async () => 'secret')
+    await searchWeb('launch date', stub.providers, getCredential)
+
+    expect(getCredential).not.toHaveBeenCalled()
+  })
+
+  it('skips a provider on its own host until its key is stored', async () => {
+    const getCredential = vi.fn(async () => null)
+    const results = await searchWeb('launch date', [{ id: 'brave', enabled: true }], getCredential)
+
+    expect(getCredential).toHaveBeenCalledWith('brave')
+    expect(results).toEqual([])
+  })
+
+  it('fails when every queried provider fails', async () => {
+    const broken = stub.providers.map((config) => ({ ...config, baseUrl: `${stub.baseUrl}/gone` }))
+
+    await expect(searchWeb('launch date', broken, async () => null)).rejects.toThrow(
+      /Web search failed: Perplexity returned 404/
+    )
+  })
+
+  it('keeps the results of the providers that answered when others fail', async () => {
+    const [perplexity, brave, searxng] = stub.providers
+    const results = await searchWeb(
+      'launch date',
+      [perplexity, { ...brave, baseUrl: `${stub.baseUrl}/gone` }, searxng],
+      async () => null
+    )
+
+    expect(results.map((result) => result.metadata.provider)).not.toContain('Brave Search')
+    expect(results.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,121 @@
+import { logger } from '../utils/logger'
+import { isCredentialHost } from '../../shared/providers'
+import type { CredentialProvider } from '../credentials'
+import type { CommonSearchResult, WebSearchProviderConfig, WebSearchProviderId } from '../types'
+import type { WebSearchProvider } from './provider'
+import { braveProvider } from './brave'
+import { perplexityProvider } from './perplexity'
+import { searxngProvider } from './searxng'
+
+export type { WebSearchProvider } from './provider'
+
+export const WEB_SEARCH_PROVIDERS: Record<WebSearchProviderId, WebSearchProvider> = {
+  perplexity: perplexityProvider,
+  brave: braveProvider,
+  searxng: searxngProvider
+}
+
+// Perplexity first keeps the AI answer on top, as before providers were configurable
+export const DEFAULT_WEB_SEARCH_PROVIDERS: WebSearchProviderConfig[] = [
+  { id: 'perplexity', enabled: true },
+  { id: 'brave', enabled: true },
+  { id: 'searxng', enabled: false }
+]
+
+const WEB_SEARCH_TIMEOUT_MS = 5000
+const RESULTS_PER_PROVIDER = 5
+
+export interface WebSearchProviderInfo extends WebSearchProviderConfig {
+  name: string
+  defaultBaseUrl?: string
+  credential?: CredentialProvider
+}
+
+/**
+ * Drops unknown and repeated providers and appends missing ones disabled, so saved settings
+ * always list every provider exactly once
+ */
+export function normalizeWebSearchConfig(
+  configs: WebSearchProviderConfig[]
+): WebSearchProviderConfig[] {
+  const known = configs.filter(
+    (config, index) =>
+      config.id in WEB_SEARCH_PROVIDERS &&
+      configs.findIndex((other) => other.id === config.id) === index
+  )
+  const missing = DEFAULT_WEB_SEARCH_PROVIDERS.filter(
+    (fallback) => !known.some((config) => config.id === fallback.id)
+  ).map((fallback) => ({ ...fallback, enabled: false }))
+  return [...known, ...missing]
+}
+
+export function describeWebSearchProviders(
+  configs: WebSearchProviderConfig[]
+): WebSearchProviderInfo[] {
+  return normalizeWebSearchConfig(configs).map((config) => {
+    const { name, defaultBaseUrl, credential } = WEB_SEARCH_PROVIDERS[config.id]
+    return { ...config, name, defaultBaseUrl, credential }
+  })
+}
+
+/**
+ * Queries the enabled providers in parallel and merges their results in the configured order,
+ * skipping links an earlier provider already returned. Stored keys only go to their provider's
+ * own host, a custom endpoint is queried without one. Providers missing their key are left
+ * out, as are failing or timed out ones, unless every queried provider failed.
+ */
+export async function searchWeb(
+  query: string,
+  configs: WebSearchProviderConfig[],
+  getCredential: (provider: CredentialProvider) => Promise<string | null>,
+  limit: number = RESULTS_PER_PROVIDER
+): Promise<CommonSearchResult[]> {
+  const enabled = normalizeWebSearchConfig(configs).filter((config) => config.enabled)
+
+  // null for providers that were not queried
+  const perProvider = await Promise.allSettled(
+    enabled.map(async (config): Promise<CommonSearchResult[] | null> => {
+      const provider = WEB_SEARCH_PROVIDERS[config.id]
+      const baseUrl = (config.baseUrl || provider.defaultBaseUrl)?.replace(/\/+$/, '')
+      if (!baseUrl) return null
+      const credential =
+        provider.credential && isCredentialHost(provider.credential, baseUrl)
+          ? provider.credential
+          : null
+      const apiKey = credential ? await getCredential(credential) : null
+      if (credential && !apiKey) return null
+
+      const controller = new AbortController()
+      const timer = setTimeout(() => controller.abort(), WEB_SEARCH_TIMEOUT_MS)
+      try {
+        return await provider.search(query, { baseUrl, limit, signal: controller.signal, apiKey })
+      } catch (error) {
+        logger.warn(`${provider.name} search failed or timed out:`, error)
+        // Named after the provider, readJson errors already are
+        const message = error instanceof Error ? error.message : String(error)
+        throw new Error(
+          message.startsWith(provider.name) ? message : `${provider.name}: ${message}`
+        )
+      } finally {
+        clearTimeout(timer)
+      }
+    })
+  )
+
+  const failures = perProvider.flatMap((outcome) =>
+    outcome.status === 'rejected' ? [(outcome.reason as Error).message] : []
+  )
+  const answered = perProvider.some((outcome) => outcome.status === 'fulfilled' && outcome.value)
+  if (failures.length > 0 && !answered) {
+    throw new Error(`Web search failed: ${failures.join('; ')}`)
+  }
+
+  const seen = new Set<string>()
+  return perProvider
+    .flatMap((outcome) => (outcome.status === 'fulfilled' ? (outcome.value ?? []) : []))
+    .filter((result) => {
+      if (seen.has(result.metadata.path)) return false
+      seen.add(result.metadata.path)
+      return true
+    })
+}
@@ -0,0 +1,97 @@
+import { policyFetch } from '../network-policy'
+import { readJson, toWebResult, type WebSearchProvider } from './provider'
+
+const PERPLEXITY_MODEL = 'perplexity/llama-3.1-sonar-small-128k-online'
+
+interface UrlCitation {
+  url: string
+  title?: string
+  content?: string
+}
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: {
+      content?: string
+      annotations?: { type: string; url_citation?: UrlCitation }[]
+    }
+  }[]
+  citations?: string[] // Older responses list the cited URLs at the top level
+}
+
+// Links written into the answer itself, used when the response carries no citations
+const linksInText = (text: string): UrlCitation[] =>
+  Array.from(text.matchAll(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)|\bhttps?:\/\/[^\s<>)\]]+/g)).map(
+    (match) => (match[2] ? { url: match[2], title: match[1] } : { url: match[0] })
+  )
+
+/**
+ * Perplexity's online model through OpenRouter. The answer becomes one result linking to the
+ * same question on perplexity.ai, followed by one result per cited source.
+ */
+export const perplexityProvider: WebSearchProvider = {
+  id: 'perplexity',
+  name: 'Perplexity',
+  defaultBaseUrl: 'https://openrouter.ai/api/v1',
+  credential: 'openrouter',
+
+  async search(query, { baseUrl, limit, signal, apiKey }) {
+    const response = await policyFetch('perplexity', `${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: PERPLEXITY_MODEL,
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You are a search engine api that provides answers to questions with as many links to sources as possible. You must include a link url in your answer'
+          },
+          { role: 'user', content: query }
+        ]
+      }),
+      signal
+    })
+    const data = await readJson<ChatCompletionResponse>(this, response)
+    const message = data.choices?.[0]?.message
+    const answer = message?.content
+    if (!answer) return []
+
+    const annotated = (message.annotations ?? []).flatMap((annotation) =>
+      annotation.type === 'url_citation' && annotation.url_citation ? [annotation.url_citation] : []
+    )
+    const citations: UrlCitation[] =
+      annotated.length > 0
+        ? annotated
+        : data.citations?.length
+          ? data.citations.map((url) => ({ url }))
+          : linksInText(answer)
+    const unique = Array.from(
+      new Map(citations.map((citation) => [citation.url, citation])).values()
+    )
+
+    const answerResult = toWebResult(this, {
+      url: `https://www.perplexity.ai/search?q=${encodeURIComponent(query)}`,
+      title: 'AI Answer',
+      text: answer,
+      description: 'AI-generated answer from Perplexity'
+    })
+    answerResult.metadata.links = unique.map((citation) => citation.url)
+
+    return [
+      answerResult,
+      ...unique.slice(0, limit).map((citation) =>
+        toWebResult(this, {
+          url: citation.url,
+          title: citation.title,
+          // Short until the renderer fetches the page itself
+          text: citation.content || citation.title || citation.url,
+          description: 'Cited in the Perplexity answer'
+        })
+      )
+    ]
+  }
+}
@@ -0,0 +1,58 @@
+import type { CredentialProvider } from '../credentials'
+import type { CommonSearchResult, WebSearchProviderId } from '../types'
+
+export interface WebSearchContext {
+  baseUrl: string
+  limit: number
+  signal: AbortSignal
+  apiKey: string | null
+}
+
+export interface WebSearchProvider {
+  id: WebSearchProviderId
+  name: string
+  defaultBaseUrl?: string
+  credential?: CredentialProvider // Skipped on their own host until it is set
+  search(query: string, context: WebSearchContext): Promise<CommonSearchResult[]>
+}
+
+export interface WebHit {
+  url: string
+  title?: string
+  text: string
+  description?: string
+}
+
+/**
+ * Normalizes a provider hit into the shape local results use, one entry per link
+ */
+export function toWebResult(provider: WebSearchProvider, hit: WebHit): CommonSearchResult {
+  const now = Date.now() / 1000
+  return {
+    text: hit.text,
+    metadata: {
+      path: hit.url,
+      title: hit.title || new URL(hit.url).hostname,
+      created_at: now,
+      modified_at: now,
+      filetype: 'web',
+      languages: ['en'],
+      links: [hit.url],
+      owner: null,
+      seen_at: now,
+      sourceType: 'web',
+      description: hit.description,
+      provider: provider.name
+    }
+  }
+}
+
+/**
+ * Parses a JSON response, turning HTTP errors into exceptions naming the provider
+ */
+export async function readJson<T>(provider: WebSearchProvider, response: Response): Promise<T> {
+  if (!response.ok) {
+    throw new Error(`${provider.name} returned ${response.status}`)
+  }
+  return (await response.json()) as T
+}
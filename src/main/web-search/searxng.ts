@@ -0,0 +1,34 @@
+import { policyFetch } from '../network-policy'
+import { readJson, toWebResult, type WebSearchProvider } from './provider'
+
+interface SearxngResponse {
+  results?: { url: string; title?: string; content?: string; engine?: string }[]
+}
+
+/**
+ * Self-hosted SearXNG instance. The JSON format has to be enabled under `search.formats`
+ * in the instance's settings.yml.
+ */
+export const searxngProvider: WebSearchProvider = {
+  id: 'searxng',
+  name: 'SearXNG',
+  defaultBaseUrl: 'http://localhost:8888',
+
+  async search(query, { baseUrl, limit, signal }) {
+    const params = new URLSearchParams({ q: query, format: 'json' })
+    const response = await policyFetch('searxng', `${baseUrl}/search?${params}`, {
+      headers: { Accept: 'application/json' },
+      signal
+    })
+    const data = await readJson<SearxngResponse>(this, response)
+
+    return (data.results ?? []).slice(0, limit).map((result) =>
+      toWebResult(this, {
+        url: result.url,
+        title: result.title,
+        text: result.content || result.title || result.url,
+        description: result.engine && `via ${result.engine}`
+      })
+    )
+  }
+}
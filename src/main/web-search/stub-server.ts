@@ -0,0 +1,120 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { WebSearchProviderConfig } from '../types'
+
+export interface StubHit {
+  url: string
+  title: string
+  snippet: string
+}
+
+export interface WebSearchStub {
+  baseUrl: string
+  // Every provider pointed at the stub, ready to pass to searchWeb()
+  providers: WebSearchProviderConfig[]
+  // Queries received so far, in order
+  queries: string[]
+  close: () => Promise<void>
+}
+
+const DEFAULT_HITS: StubHit[] = [
+  {
+    url: 'https://example.com/alpha',
+    title: 'Alpha',
+    snippet: 'First stub result'
+  },
+  {
+    url: 'https://example.org/beta',
+    title: 'Beta',
+    snippet: 'Second stub result'
+  }
+]
+
+const sendJson = (response: http.ServerResponse, body: unknown): void => {
+  response.writeHead(200, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+const readBody = (request: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = ''
+    request.on('data', (chunk) => (body += chunk))
+    request.on('end', () => resolve(body))
+    request.on('error', reject)
+  })
+
+/**
+ * Local HTTP server answering like Brave, SearXNG and Perplexity through OpenRouter with
+ * canned hits, for exercising the web search providers without network access or keys.
+ * Being on localhost it also passes the private mode network policy.
+ * @param port Defaults to a free port
+ */
+export async function startWebSearchStub(
+  hits: StubHit[] = DEFAULT_HITS,
+  port: number = 0
+): Promise<WebSearchStub> {
+  const queries: string[] = []
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+
+    if (request.method === 'GET' && url.pathname === '/searxng/search') {
+      queries.push(url.searchParams.get('q') ?? '')
+      sendJson(response, {
+        results: hits.map((hit) => ({
+          url: hit.url,
+          title: hit.title,
+          content: hit.snippet,
+          engine: 'stub'
+        }))
+      })
+    } else if (request.method === 'GET' && url.pathname === '/brave/web/search') {
+      queries.push(url.searchParams.get('q') ?? '')
+      sendJson(response, {
+        type: 'search',
+        web: {
+          type: 'search',
+          results: hits.map((hit) => ({
+            url: hit.url,
+            title: hit.title,
+            description: hit.snippet
+          }))
+        }
+      })
+    } else if (request.method === 'POST' && url.pathname === '/perplexity/chat/completions') {
+      const { messages = [] } = JSON.parse((await readBody(request)) || '{}')
+      queries.push(messages[messages.length - 1]?.content ?? '')
+      sendJson(response, {
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: hits.map((hit, index) => `${hit.snippet} [${index + 1}]`).join(' ')
+            }
+          }
+        ],
+        citations: hits.map((hit) => hit.url)
+      })
+    } else {
+      response.writeHead(404)
+      response.end()
+    }
+  })
+
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve))
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    baseUrl,
+    providers: [
+      { id: 'perplexity', enabled: true, baseUrl: `${baseUrl}/perplexity` },
+      { id: 'brave', enabled: true, baseUrl: `${baseUrl}/brave` },
+      { id: 'searxng', enabled: true, baseUrl: `${baseUrl}/searxng` }
+    ],
+    queries,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      )
+  }
+}
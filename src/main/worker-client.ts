@@ -0,0 +1,115 @@
+import { Worker } from 'worker_threads'
+import { logger } from './utils/logger'
+
+interface PendingRequest {
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+interface WorkerReply {
+  id?: number
+  type: 'result' | 'error'
+  error?: string
+  [key: string]: unknown
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000 // First requests also wait for the model download
+
+/**
+ * Request/response wrapper around a worker thread. Every message carries an `id` that the
+ * worker echoes back, so concurrent callers only ever receive their own replies. A crashed
+ * worker rejects everything in flight and is spawned again on the next request.
+ */
+export class WorkerClient {
+  private worker: Worker | null = null
+  private pending = new Map<number, PendingRequest>()
+  private nextId: number = 1
+
+  constructor(
+    private readonly name: string,
+    private readonly scriptPath: string,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  /**
+   * Posts a message to the worker and resolves with its `result` reply
+   * @returns The full reply message, minus `id` and `type`
+   */
+  public request<T>(type: string, payload: Record<string, unknown>): Promise<T> {
+    const worker = this.getWorker()
+    const id = this.nextId++
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`${this.name} request ${id} timed out after ${this.timeoutMs}ms`))
+      }, this.timeoutMs)
+
+      this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject, timer })
+      worker.postMessage({ ...payload, id, type })
+    })
+  }
+
+  public terminate(): void {
+    if (this.worker) {
+      const worker = this.worker
+      this.worker = null
+      this.rejectAll(new Error(`${this.name} worker terminated`))
+      worker.terminate()
+    }
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker
+
+    const worker = new Worker(this.scriptPath)
+    worker.on('message', (message: WorkerReply) => this.handleReply(message))
+    worker.on('error', (error) => {
+      logger.error(`${this.name} worker error:`, error)
+      this.handleCrash(worker, error)
+    })
+    worker.on('exit', (code) => {
+      if (this.worker !== worker) return // Terminated on purpose or already replaced
+      if (code !== 0) {
+        logger.error(`${this.name} worker stopped with exit code ${code}`)
+      }
+      this.handleCrash(worker, new Error(`${this.name} worker exited with code ${code}`))
+    })
+
+    this.worker = worker
+    return worker
+  }
+
+  private handleReply(message: WorkerReply): void {
+    const { id, type, error, ...result } = message
+    const request = id !== undefined ? this.pending.get(id) : undefined
+    if (!request) {
+      // Replies to requests that already timed out
+      return
+    }
+
+    this.pending.delete(id!)
+    clearTimeout(request.timer)
+    if (type === 'error') {
+      request.reject(new Error(error ?? `${this.name} worker error`))
+    } else {
+      request.resolve(result)
+    }
+  }
+
+  private handleCrash(worker: Worker, error: Error): void {
+    // Ignore late events from a worker that was already replaced
+    if (this.worker !== worker) return
+    this.worker = null
+    this.rejectAll(error)
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach((request) => {
+      clearTimeout(request.timer)
+      request.reject(error)
+    })
+    this.pending.clear()
+  }
+}
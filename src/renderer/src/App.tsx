@@ -14,22 +14,36 @@ import SearchBar from '@/components/SearchBar';
 import SearchResults from '@/components/SearchResults';
 const SettingsPanel = React.lazy(() => import('@/components/SettingsPanel'));
 import { KeyboardShortcuts } from '@/components/navigation/KeyboardShortcuts';
+import { IndexingStatus } from '@/components/IndexingStatus';
 import {
   generateText,
   streamText,
   experimental_wrapLanguageModel as wrapLanguageModel,
 } from 'ai';
-import { createOpenAI } from '@ai-sdk/openai';
-import { createContextMiddleware } from './lib/context-middleware';
+import { getLanguageModel, migrateStoredApiKey } from '@/lib/llm-provider';
+import { isLocalUrl } from '../../shared/providers';
+import { createContextMiddleware, redactSecrets } from './lib/context-middleware';
 import { LLMSettings, ContextTab } from './types';
 import type { SearchBarRef } from '@/components/SearchBar';
+import type { ChunkLocation, ImageSearchResult } from '../../main/types';
 import { getRankedChunks, RankedChunk } from '@/lib/context-utils';
+import { parseQuery, removeFilterToken, toSearchInput } from '@/lib/query-parser';
 const ResponsePanel = React.lazy(() => import('@/components/ResponsePanel'));
+const ChatHistoryPanel = React.lazy(() => import('@/components/ChatHistoryPanel'));
+const SourceViewer = React.lazy(() => import('@/components/SourceViewer'));
 import SearchBadges, { SearchStep } from '@/components/SearchBadges';
+import { runAgent, type AgentStep } from '@/lib/agent';
+import {
+  buildContext,
+  narrowReport,
+  type BuiltContext,
+  type ContextChunk,
+  type ContextReport,
+} from '@/lib/context-builder';
 import { v4 as uuidv4 } from 'uuid';
 import { AnimatePresence } from 'framer-motion';
 import ReactMarkdown from 'react-markdown';
-import { Globe, FileText, X } from 'lucide-react';
+import { Globe, FileText, FolderDown, X } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '@/components/ui/textarea';
 import {
@@ -47,13 +61,12 @@ import {
 } from '@mdxeditor/editor';
 import '@mdxeditor/editor/style.css';
 import { Onboarding } from '@/components/Onboarding';
-import { generateObject } from 'ai';
-import { z } from 'zod';
 import { DndProvider, useDrag, useDrop } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 
 interface SearchResult {
   text: string;
+  score?: number;
   dist: {
     corpus_id: number;
     score: number;
@@ -70,6 +83,8 @@ interface SearchResult {
     owner: string | null;
     seen_at: number;
     sourceType?: 'document' | 'web';
+    location?: ChunkLocation;
+    ocrConfidence?: number;
   };
   queryContext?: {
     query: string;
@@ -85,20 +100,56 @@ interface AIResponse {
   answer: string;
   timestamp: number;
   sources?: Source[];
+  context?: ContextReport;
 }
 
+const AGENT_STEP_STATUS: Record<AgentStep['status'], SearchStep['status']> = {
+  running: 'searching',
+  complete: 'complete',
+  failed: 'failed',
+};
+
+const toSearchStep = (step: AgentStep): SearchStep => ({
+  id: step.id,
+  query: step.input,
+  status: AGENT_STEP_STATUS[step.status],
+  tool: step.tool,
+  answer: step.output,
+});
+
+const toRankedDocument = (
+  result: SearchResult
+): Parameters<typeof getRankedChunks>[0]['documents'][number] => ({
+  content: result.text,
+  path: result.metadata.path,
+  type: result.metadata.sourceType === 'web' ? 'web' : 'document',
+});
+
+const toContextChunk = (result: SearchResult, score: number): ContextChunk => ({
+  text: result.text,
+  path: result.metadata.path,
+  title: result.metadata.title,
+  score,
+  location: result.metadata.location,
+});
+
 // Add a new type for panel states
-type PanelState = 'none' | 'settings' | 'response' | 'document' | 'chat';
+type PanelState = 'none' | 'settings' | 'response' | 'document' | 'chat' | 'history';
 
 // Add this interface near the top with other interfaces
 interface Source {
+  id?: number; // Citation number used in the answer
   path: string;
+  title?: string;
   preview?: string;
   citations?: string[];
   description?: string;
+  location?: SearchResult['metadata']['location'];
 }
 
 // Add this interface near the top
+const SEARCH_PAGE_SIZE = 10;
+
 interface CachedSearch {
   query: string;
   results: SearchResult[];
@@ -193,6 +244,8 @@ function App(): JSX.Element {
   const [showResults, setShowResults] = useState<boolean>(false);
   const [selectedIndex, setSelectedIndex] = useState<number>(0);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  // Pictures matched by their content, shown above the text hits
+  const [imageResults, setImageResults] = useState<ImageSearchResult[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isPrivate, setIsPrivate] = useState<boolean>(() => {
     const savedPrivacy = localStorage.getItem('llm-privacy');
@@ -211,8 +264,8 @@ function App(): JSX.Element {
       ? JSON.parse(saved)
       : {
           baseUrl: 'http://localhost:11434/v1',
-          apiKey: '',
           model: 'llama3.2:3b',
+          plannerModel: 'llama3.2:3b',
           modelType: 'ollama',
         };
   });
@@ -223,9 +276,8 @@ function App(): JSX.Element {
       ? JSON.parse(saved)
       : {
           baseUrl: 'https://openrouter.ai/api/v1',
-          apiKey:
-            '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',
           model: 'openai/gpt-4o-mini',
+          plannerModel: 'openai/gpt-4o-mini',
           modelType: 'openai',
         };
   });
@@ -235,72 +287,79 @@ function App(): JSX.Element {
     [isPrivate, privateSettings, publicSettings]
   );
 
-  const provider =
-    currentSettings.modelType === 'openai'
-      ? createOpenAI({
-          apiKey: currentSettings.apiKey,
-          baseUrl: currentSettings.baseUrl,
-        })
-      : createOpenAI({
-          apiKey: currentSettings.apiKey,
-          baseUrl: 'http://localhost:11434/v1',
-        });
+  // Keys used to live in localStorage, hand them to the credential store once
+  useEffect(() => {
+    Promise.all([
+      migrateStoredApiKey('llm-settings-private'),
+      migrateStoredApiKey('llm-settings-public'),
+    ]).catch((error) => console.error('Failed to migrate stored API keys:', error));
+  }, []);
 
-  const [conversations, setConversations] = useState<AIResponse[]>([]);
+  // The main process enforces private mode for search, the reader and LLM calls
+  useEffect(() => {
+    trpcClient.privacy.set
+      .mutate(isPrivate)
+      .catch((error) => console.error('Failed to sync private mode:', error));
+  }, [isPrivate]);
 
-  // Add this utility function near the top
-  const combinedSearchContext = useMemo(() => {
-    const MAX_CONTEXT_LENGTH = 50000;
-    let context = '';
+  // Remote services the current query reached, listed under the search bar
+  const [remoteServices, setRemoteServices] = useState<string[]>([]);
 
-    try {
-      // First, add all sticky notes to context as they are prioritized
-      const stickyContext = stickyNotes
-        .map((note) => {
-          const relevanceNote = ' (pinned)';
-          return `\n\nFrom ${note.metadata.path}${relevanceNote}:\n${note.text}`;
-        })
-        .join('');
-
-      // Get search results for scoring
-      const searchDocuments = searchResults.map((result) => ({
-        content: result.text,
-        path: result.metadata.path,
-        type: result.metadata.sourceType === 'web' ? 'web' : 'document',
-      }));
-
-      // Select search documents up to remaining length
-      let currentLength = stickyContext.length;
-      const selectedSearchDocs = searchDocuments.filter((doc) => {
-        const length = doc.content.length;
-        if (currentLength + length <= MAX_CONTEXT_LENGTH) {
-          currentLength += length;
-          return true;
-        }
-        return false;
-      });
+  useEffect(() => {
+    const subscription = trpcClient.privacy.activity.subscribe(undefined, {
+      onData: (event) => {
+        if (event.blocked) return;
+        setRemoteServices((prev) =>
+          prev.includes(event.service) ? prev : [...prev, event.service]
+        );
+      },
+      onError: (error) => console.error('Network activity subscription failed:', error),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
 
-      // Build context with sticky notes first, then search results
-      context = stickyContext; // Start with sticky notes
+  const [conversations, setConversations] = useState<AIResponse[]>([]);
 
-      // Add search results if there's space
-      if (selectedSearchDocs.length > 0) {
-        const searchContext = selectedSearchDocs
-          .map((doc) => `\n\nFrom ${doc.path}:\n${doc.content}`)
-          .join('');
+  // Saved thread the conversation belongs to, unset until its first answer completes. The ref
+  // lets answers that finish after a re-render still append to the right thread.
+  const [activeThreadId, setActiveThreadId] = useState<string | undefined>();
+  const activeThreadIdRef = useRef<string | undefined>();
 
-        context += searchContext;
-      }
+  const selectThread = (threadId: string | undefined): void => {
+    activeThreadIdRef.current = threadId;
+    setActiveThreadId(threadId);
+  };
 
-      return context.trim();
-    } catch (error) {
-      console.error('Error building context:', error);
-      return '';
-    }
-  }, [query, searchResults, stickyNotes]);
+  const saveExchange = useCallback(
+    async (conversation: AIResponse): Promise<void> => {
+      try {
+        const thread = await trpcClient.chats.append.mutate({
+          threadId: activeThreadIdRef.current,
+          message: {
+            question: conversation.question,
+            answer: conversation.answer,
+            timestamp: conversation.timestamp,
+            sources: conversation.sources ?? [],
+            model: currentSettings.model,
+          },
+        });
+        selectThread(thread.id);
+      } catch (error) {
+        console.error('Failed to save chat:', error);
+      }
+    },
+    [currentSettings]
+  );
 
   // Update the activePanel state to use the new type
   const [activePanel, setActivePanel] = useState<PanelState>('response');
+  // Cited source shown in the document panel
+  const [openedSource, setOpenedSource] = useState<Source | null>(null);
+
+  const openSource = useCallback((source: Source) => {
+    setOpenedSource(source);
+    setActivePanel('document');
+  }, []);
 
   const searchBarRef = useRef<SearchBarRef>(null);
 
@@ -341,10 +400,11 @@ function App(): JSX.Element {
       ];
 
       const chunks = await getRankedChunks({
-        query,
+        query: parseQuery(query).text || query,
         documents,
         chunkSize: 500,
-        minScore: 0.1,
+        // Local hits were already thresholded by the search reranker, keep them all
+        minScore: 0,
       });
 
       setRankedChunks(chunks);
@@ -357,6 +417,57 @@ function App(): JSX.Element {
     }
   }, [query, searchResults]);
 
+  // Numbered passages and history fitted to the answer model's window, pinned notes first.
+  // Each answer keeps the passages it was given so its [n] markers can be resolved later.
+  const assembleContext = useCallback(
+    async (
+      question: string,
+      results: SearchResult[],
+      notes: string = ''
+    ): Promise<BuiltContext> => {
+      // Chunks ranked for the current results are reused, the agent's finds are ranked again
+      const chunks =
+        results === searchResults && rankedChunks.length > 0
+          ? rankedChunks
+          : await getRankedChunks({
+              query: question,
+              documents: results.map(toRankedDocument),
+              chunkSize: 500,
+              minScore: 0,
+            });
+      const resultsByPath = new Map(results.map((result) => [result.metadata.path, result]));
+
+      return buildContext({
+        settings: currentSettings,
+        question,
+        notes,
+        pinned: stickyNotes.map((note) => toContextChunk(note, 1)),
+        chunks: chunks.map((chunk) => {
+          const result = resultsByPath.get(chunk.path);
+          const location = result?.metadata.location;
+          // Reranked chunks are slices of the hit, shift its offsets onto the slice. The
+          // page or section of the hit still covers it.
+          const text = chunk.text.trim();
+          const offset = result?.text.indexOf(text) ?? -1;
+          return {
+            ...chunk,
+            title: result?.metadata.title,
+            location:
+              location && offset >= 0
+                ? {
+                    ...location,
+                    start: location.start + offset,
+                    end: location.start + offset + text.length,
+                  }
+                : undefined,
+          };
+        }),
+        conversations,
+      });
+    },
+    [currentSettings, searchResults, rankedChunks, stickyNotes, conversations]
+  );
+
   // Add a separate effect to update similarity scores
   const [documentScores, setDocumentScores] = useState<Map<string, number>>(
     new Map()
@@ -402,17 +513,9 @@ function App(): JSX.Element {
     async (
       model: any,
       originalQuery: string,
+      { history }: BuiltContext,
       subQueryContext: string = ''
     ): Promise<{ textStream: AsyncIterable<string> }> => {
-      // Get last 4 conversation messages
-      const recentConversations = conversations
-        .slice(-8)
-        .map((conv) => [
-          { role: 'user' as const, content: conv.question.slice(0, 2000) },
-          { role: 'assistant' as const, content: conv.answer.slice(0, 2000) },
-        ])
-        .flat();
-
       // If agent is disabled, use direct search and response
       if (!useAgent) {
         return streamText({
@@ -420,12 +523,9 @@ function App(): JSX.Element {
           messages: [
             {
               role: 'system',
-              content: `You are a helpful assistant that provides well-formatted responses using markdown. When citing sources, use markdown links like [quote](link to file or url). Do not leave placeholder comments or images inside the response.
-                  
-Current Context:
-${combinedSearchContext}`,
+              content: `You are a helpful assistant that provides well-formatted responses using markdown. The context is a list of numbered sources. When using a source, cite it with its number in square brackets right after the statement, like [1] or [2][3]. Do not leave placeholder comments or images inside the response.`,
             },
-            ...recentConversations.filter((conv) => conv.role !== 'system'),
+            ...history,
             {
               role: 'user',
               content: originalQuery,
@@ -440,166 +540,60 @@ ${combinedSearchContext}`,
         messages: [
           {
             role: 'system',
-            content: `You are a helpful assistant that provides well-formatted responses using markdown, including visual aids like headings, images and tables when relevant. When citing sources, use markdown links like [relevant text](link to file or url). Provide all links that would be useful references to the answer in line. Use the words within the source as link text rather than the source name.
-                  
-Additional Context (sorted by relevance):
-${combinedSearchContext}`,
+            content: `You are a helpful assistant that provides well-formatted responses using markdown, including visual aids like headings, images and tables when relevant. The context is a list of numbered sources. Cite every statement taken from a source with its number in square brackets right after it, like [1] or [2][3]. Only cite numbers that appear in the context, which is sorted by relevance.`,
           },
-          ...recentConversations.filter((conv) => conv.role !== 'system'),
+          ...history,
           {
             role: 'user',
             content: `Use the following context and your knowledge to answer the question. Use markdown formatting to create a well formatted response using visual aids such as headings and images and tables from the context to answer the question as well and informative as possible. 
 
-${subQueryContext ? `\nReasoning steps:\n${subQueryContext}` : ''}
+${subQueryContext ? `\nResearch notes:\n${subQueryContext}` : ''}
 
 Question: ${originalQuery}
 
-Answer with inline url links as citations and take account todays date: ${new Date().toLocaleDateString()}`,
+Cite sources with their [n] numbers and take account todays date: ${new Date().toLocaleDateString()}`,
           },
         ],
       });
     },
-    [combinedSearchContext, conversations, useAgent]
+    [useAgent]
   );
 
   // Add to your state definitions
   const [searchSteps, setSearchSteps] = useState<SearchStep[]>([]);
 
-  // Update breakDownQuery with full agent logic
-  const breakDownQuery = async (
-    query: string,
-    existingContext: string = ''
-  ): Promise<{ queries: string[]; results: SearchResult[] }> => {
-    console.log('Starting breakDownQuery with:', {
-      query,
-      existingContextLength: existingContext.length,
-      searchResultsCount: searchResults.length,
-    });
-
-    const contextMiddleware = createContextMiddleware({
-      getContext: () => combinedSearchContext,
-    });
-
-    // Get last 4 conversation messages
-    const recentConversations = conversations
-      .slice(-8)
-      .map((conv) => [
-        { role: 'user' as const, content: conv.question.slice(0, 2000) },
-        { role: 'assistant' as const, content: conv.answer.slice(0, 2000) },
-      ])
-      .flat();
-
-    const model = wrapLanguageModel({
-      model: provider('openai/gpt-3.5-turbo-instruct'),
-      middleware: contextMiddleware,
-    });
-
-    try {
-      console.log('Generating evaluation object...');
-      const { object } = await generateObject({
-        model,
-        mode: 'json',
-        schema: z.object({
-          hasAnswer: z
-            .boolean()
-            .describe(
-              'Whether the current context is sufficient to answer the query - be lenient'
-            ),
-          suggestedQuery: z
-            .string()
-            .describe(
-              `A search query of one sentence to describe the context you need.`
-            ),
-          reasoning: z
-            .string()
-            .describe(
-              'Brief explanation of why more information is needed or why current context is sufficient'
-            ),
-        }),
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a search query analyzer that evaluates context completeness and generates focused search queries. Keep your responses concise. Always search for updated information and refer to the context of current queries to make sure you are searching for the most relevant information, so take account todays date: ' +
-              new Date().toLocaleDateString() +
-              `
-
-Current Context:
-${combinedSearchContext}`,
-          },
-          ...recentConversations.filter((conv) => conv.role !== 'system'),
-          {
-            role: 'user',
-            content: `Evaluate if we have sufficient information to answer this query and determine what additional information might be needed.
-
-Main Query: ${query}
-
-Instructions:
-1. Analyze the main query and break it down into different pieces of context that is useful to answer the query
-2. Evaluate the current context against these aspects
-3. If more information is needed, provide a specific search query
-
-Consider the chat history above when determining if we have sufficient context.
-Your search queries must be specific and use updated information taking account todays date: ${new Date().toLocaleDateString()}.
-
-Keep your response focused and concise.`,
-          },
-        ],
-      });
-
-      console.log('Evaluation result:', JSON.stringify(object, null, 2));
-
-      // Return both the query and empty results array if we have sufficient context
-      if (object.hasAnswer) {
-        return { queries: [], results: [] };
-      }
-
-      // Add reasoning to search steps
-      setSearchSteps((prev) => [
-        ...prev,
-        {
-          id: uuidv4(),
-          query: object.reasoning,
-          status: 'thinking',
-        },
-      ]);
-
-      // Fallback to using the suggested query or a generic one
-      const fallbackQuery =
-        object.suggestedQuery || `more specific information about ${query}`;
-      console.log('Using fallback query:', fallbackQuery);
-      return { queries: [fallbackQuery], results: [] };
-    } catch (error) {
-      console.error('Error in breakDownQuery:', error);
-      const fallbackQuery = `specific information about ${query}`;
-      console.log('Error occurred, using fallback query:', fallbackQuery);
-      return { queries: [fallbackQuery], results: [] };
-    }
-  };
-
   // Update askAIQuestion to properly handle both agent and non-agent paths
   const askAIQuestion = useCallback(
     async (originalQuery: string) => {
-      const baseModel = provider(currentSettings.model);
-      const contextMiddleware = createContextMiddleware({
-        getContext: () => combinedSearchContext,
-      });
+      const baseModel = getLanguageModel(currentSettings, 'answer');
+      // Rebuilt after the agent's research, the middleware injects whichever is current
+      let built = await assembleContext(originalQuery, searchResults);
+      // Passages going to a remote endpoint have keys and tokens masked first
+      const redact = isLocalUrl(currentSettings.baseUrl) ? [] : [redactSecrets];
+      // Passages the answer model was actually sent, what [n] citations and the report refer to
+      let injected: Pick<AIResponse, 'sources' | 'context'> = {};
 
       const model = wrapLanguageModel({
         model: baseModel,
-        middleware: contextMiddleware,
+        middleware: createContextMiddleware({
+          getContext: () => built.sources,
+          onInject: async (given, dropped) => {
+            injected = { sources: given, context: await narrowReport(built.report, dropped) };
+          },
+          settings: currentSettings,
+          redact,
+        }),
       });
 
       if (!useAgent) {
         // Skip search steps and agent processing, but still start a chat
         try {
-          const textStream = await generateChatResponse(model, originalQuery);
+          const textStream = await generateChatResponse(model, originalQuery, built);
 
           const newConversation: AIResponse = {
             question: originalQuery,
             answer: '',
             timestamp: Date.now(),
-            sources: [],
           };
 
           setConversations((prev) => [...prev, newConversation]);
@@ -612,12 +606,14 @@ Keep your response focused and concise.`,
                 i === prev.length - 1
                   ? {
                       ...conv,
+                      ...injected,
                       answer: fullResponse,
                     }
                   : conv
               )
             );
           }
+          await saveExchange({ ...newConversation, ...injected, answer: fullResponse });
         } catch (error) {
           console.error('Chat failed:', error);
         }
@@ -627,43 +623,61 @@ Keep your response focused and concise.`,
       // Agent-enabled path
       setSearchSteps([]);
       let allResults: SearchResult[] = [...searchResults];
-      const allSources: Source[] = [];
       let subQueryContext = '';
 
       try {
-        // Break down query and gather additional context
-        const { queries } = await breakDownQuery(originalQuery);
-
-        // If we have additional queries, perform searches
-        if (queries.length > 0) {
-          for (const query of queries) {
-            setSearchSteps((prev) => [
-              ...prev,
-              {
-                id: uuidv4(),
-                query,
-                status: 'searching',
-              },
-            ]);
-
-            const results = await trpcClient.search.quick.query(query);
-            if (results.length > 0) {
-              allResults = [...allResults, ...results];
-              setSearchResults(allResults);
-            }
+        // Let the model research with tools until it has enough context
+        try {
+          const run = await runAgent({
+            model: wrapLanguageModel({
+              model: getLanguageModel(currentSettings, 'planner'),
+              middleware: createContextMiddleware({
+                getContext: () => built.sources,
+                heading: 'Context already available',
+                redact,
+              }),
+            }),
+            allowWeb: !isPrivate,
+            question: originalQuery,
+            history: built.history,
+            onStep: (step) =>
+              setSearchSteps((prev) =>
+                prev.some((s) => s.id === step.id)
+                  ? prev.map((s) => (s.id === step.id ? toSearchStep(step) : s))
+                  : [...prev, toSearchStep(step)]
+              ),
+          });
 
-            setSearchSteps((prev) =>
-              prev.map((step) =>
-                step.query === query ? { ...step, status: 'complete' } : step
-              )
-            );
+          if (run.results.length > 0) {
+            allResults = [...allResults, ...run.results];
+            setSearchResults(allResults);
           }
+          subQueryContext = [run.notes, run.reasoning && `Conclusion: ${run.reasoning}`]
+            .filter(Boolean)
+            .join('\n\n');
+        } catch (error) {
+          // Models without tool support still get to answer from the current context
+          console.error('Agent research failed:', error);
+          setSearchSteps((prev) => [
+            ...prev,
+            {
+              id: uuidv4(),
+              query: 'Research failed, answering from current context',
+              status: 'failed',
+            },
+          ]);
         }
 
-        // Start chat with gathered context
+        // Fit the context again, the agent's finds and notes compete for the same window
+        built = await assembleContext(
+          originalQuery,
+          allResults.length > searchResults.length ? allResults : searchResults,
+          subQueryContext
+        );
         const textStream = await generateChatResponse(
           model,
           originalQuery,
+          built,
           subQueryContext
         );
 
@@ -671,7 +685,6 @@ Keep your response focused and concise.`,
           question: originalQuery,
           answer: '',
           timestamp: Date.now(),
-          sources: allSources,
         };
 
         setConversations((prev) => [...prev, newConversation]);
@@ -684,12 +697,14 @@ Keep your response focused and concise.`,
               i === prev.length - 1
                 ? {
                     ...conv,
+                    ...injected,
                     answer: fullResponse,
                   }
                 : conv
             )
           );
         }
+        await saveExchange({ ...newConversation, ...injected, answer: fullResponse });
       } catch (error) {
         console.error('Agent chat failed:', error);
         setSearchSteps((prev) => [
@@ -704,11 +719,11 @@ Keep your response focused and concise.`,
     },
     [
       currentSettings,
-      combinedSearchContext,
-      conversations,
+      isPrivate,
+      assembleContext,
       searchResults,
-      breakDownQuery,
       generateChatResponse,
+      saveExchange,
       useAgent,
     ]
   );
@@ -716,94 +731,174 @@ Keep your response focused and concise.`,
   // Add state machine
   const [searchState, dispatch] = useReducer(searchReducer, { status: 'idle' });
 
-  // Update debouncedSearch to not handle chat
+  // Active search.stream subscription, replaced by every new search
+  const searchSubscriptionRef = useRef<{ unsubscribe: () => void } | null>(null);
+  // Offset of the next page of local hits, null once they are exhausted
+  const nextOffsetRef = useRef<number | null>(null);
+  const [hasMoreResults, setHasMoreResults] = useState<boolean>(false);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+
+  // Fetch full content in the background for hits that only carry a snippet
+  const fetchFullContent = useCallback((results: SearchResult[]) => {
+    results.forEach(async (result) => {
+      try {
+        if (
+          result.metadata.sourceType === 'web' &&
+          result.text.length > 500
+        ) {
+          return;
+        }
+        // Local hits are already the matching chunk, keep them as-is
+        if (result.metadata.location) {
+          return;
+        }
+
+        const response = await trpcClient.content.fetch.query(
+          result.metadata.path
+        );
+        if (response.content) {
+          setSearchResults((prev) =>
+            prev.map((r) =>
+              r.metadata.path === result.metadata.path
+                ? { ...r, text: response.content }
+                : r
+            )
+          );
+        }
+      } catch (error) {
+        console.error('Error fetching full content:', error);
+      }
+    });
+  }, []);
+
+  // Update debouncedSearch to not handle chat. Local hits are shown as soon as they
+  // arrive, web answers are merged in whenever the remote provider responds.
   const debouncedSearch = useCallback(
-    async (searchQuery: string): Promise<boolean> => {
+    (searchQuery: string): void => {
+      searchSubscriptionRef.current?.unsubscribe();
+      searchSubscriptionRef.current = null;
+      setRemoteServices([]);
+
       if (!searchQuery.trim()) {
         dispatch({ type: 'RESET' });
         setShowResults(false);
         setSearchResults([]);
+        setImageResults([]);
+        setHasMoreResults(false);
         setIsLoading(false);
-        return false;
+        return;
       }
 
       setIsLoading(true);
+      setHasMoreResults(false);
+      setImageResults([]);
+      nextOffsetRef.current = null;
       dispatch({ type: 'START_SEARCH', payload: { query: searchQuery } });
 
-      try {
-        // Only use quick search
-        const quickResults = await trpcClient.search.quick.query(searchQuery);
-
-        if (quickResults.length === 0) {
-          setShowResults(false);
-          dispatch({ type: 'SEARCH_ERROR', payload: 'No results found' });
-          setIsLoading(false);
-          return false;
-        }
-
-        // Filter and show quick results immediately
-        const filteredQuickResults = filterOutStickyNotes(quickResults);
-        setSearchResults(filteredQuickResults);
-        setShowResults(filteredQuickResults.length > 0);
-        dispatch({
-          type: 'SEARCH_SUCCESS',
-          payload: { query: searchQuery, results: filteredQuickResults },
-        });
-
-        // Start background fetch of full content
-        filteredQuickResults.forEach(async (result) => {
-          try {
-            if (
-              result.metadata.sourceType === 'web' &&
-              result.text.length > 500
-            ) {
+      let collected: SearchResult[] = [];
+      let imageCount = 0;
+      searchSubscriptionRef.current = trpcClient.search.stream.subscribe(
+        { ...toSearchInput(searchQuery), limit: SEARCH_PAGE_SIZE },
+        {
+          onData: (event) => {
+            if (event.type === 'error') {
+              console.error(`${event.source} search failed:`, event.message);
               return;
             }
-
-            const response = await trpcClient.content.fetch.query(
-              result.metadata.path
-            );
-            if (response.content) {
-              setSearchResults((prev) =>
-                prev.map((r) =>
-                  r.metadata.path === result.metadata.path
-                    ? { ...r, text: response.content }
-                    : r
-                )
-              );
+            if (event.type === 'images') {
+              imageCount = event.results.length;
+              setImageResults(event.results);
+              setShowResults(true);
+              return;
             }
-          } catch (error) {
-            console.error('Error fetching full content:', error);
-          }
-        });
 
-        // Cache the results
-        setSearchCache((prev) => {
-          const newCache = [
-            {
-              query: searchQuery,
-              results: filteredQuickResults,
-              timestamp: Date.now(),
-            },
-            ...prev.filter((item) => item.query !== searchQuery),
-          ].slice(0, 5);
-          return newCache;
-        });
+            const results = filterOutStickyNotes(event.results);
+            if (event.source === 'local') {
+              nextOffsetRef.current = event.nextOffset;
+              setHasMoreResults(event.nextOffset !== null);
+            }
+            // Web answers stay on top, as with the non-streaming search
+            collected =
+              event.source === 'web'
+                ? [...results, ...collected]
+                : [...collected, ...results];
+            if (collected.length === 0) return;
+
+            setSearchResults(collected);
+            setShowResults(true);
+            setIsLoading(false);
+            dispatch({
+              type: 'SEARCH_SUCCESS',
+              payload: { query: searchQuery, results: collected },
+            });
+            fetchFullContent(results);
+          },
+          onError: (error) => {
+            console.error('Search failed:', error);
+            if (collected.length === 0) {
+              setSearchResults([]);
+              setShowResults(false);
+              dispatch({ type: 'SEARCH_ERROR', payload: String(error) });
+            }
+            setIsLoading(false);
+          },
+          onComplete: () => {
+            searchSubscriptionRef.current = null;
+            setIsLoading(false);
+            if (collected.length === 0 && imageCount === 0) {
+              setShowResults(false);
+              dispatch({ type: 'SEARCH_ERROR', payload: 'No results found' });
+              return;
+            }
 
-        setIsLoading(false);
-        return true;
-      } catch (error) {
-        console.error('Search failed:', error);
-        setSearchResults([]);
-        setShowResults(false);
-        dispatch({ type: 'SEARCH_ERROR', payload: String(error) });
-        setIsLoading(false);
-        return false;
-      }
+            // Cache the results
+            setSearchCache((prev) => {
+              const newCache = [
+                {
+                  query: searchQuery,
+                  results: collected,
+                  timestamp: Date.now(),
+                },
+                ...prev.filter((item) => item.query !== searchQuery),
+              ].slice(0, 5);
+              return newCache;
+            });
+          },
+        }
+      );
     },
-    [getCachedResults, stickyNotes]
+    [getCachedResults, stickyNotes, fetchFullContent]
   );
 
+  // Fetch the next page of local hits when the results list is scrolled to the end
+  const loadMoreResults = useCallback(async () => {
+    const offset = nextOffsetRef.current;
+    if (offset === null || isLoadingMore || !query.trim()) return;
+
+    setIsLoadingMore(true);
+    try {
+      const nextPage = await trpcClient.search.page.query({
+        ...toSearchInput(query),
+        limit: SEARCH_PAGE_SIZE,
+        offset,
+      });
+      nextOffsetRef.current = nextPage.nextOffset;
+      setHasMoreResults(nextPage.nextOffset !== null);
+
+      const results = filterOutStickyNotes(nextPage.results);
+      setSearchResults((prev) => [...prev, ...results]);
+    } catch (error) {
+      console.error('Failed to load more results:', error);
+      setHasMoreResults(false);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [isLoadingMore, query, stickyNotes]);
+
+  useEffect(() => {
+    return (): void => searchSubscriptionRef.current?.unsubscribe();
+  }, []);
+
   // Update handleInputChange to debounce properly
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -825,11 +920,25 @@ Keep your response focused and concise.`,
       } else {
         setShowResults(false);
         setSearchResults([]);
+        setImageResults([]);
       }
     },
     [debouncedSearch]
   );
 
+  const handleRemoveFilter = useCallback(
+    (raw: string) => {
+      const newQuery = removeFilterToken(query, raw);
+      setQuery(newQuery);
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+      debouncedSearch(newQuery);
+      searchBarRef.current?.focus();
+    },
+    [query, debouncedSearch]
+  );
+
   // Add cleanup effect
   useEffect(() => {
     return (): void => {
@@ -944,18 +1053,144 @@ Keep your response focused and concise.`,
     id: string;
     position: { x: number; y: number };
     isDragging?: boolean;
+    savedPath?: string;
   }
 
+  type NoteInput = Parameters<typeof trpcClient.notes.save.mutate>[0];
+  type NoteRecord = Awaited<ReturnType<typeof trpcClient.notes.list.query>>[number];
+
+  const toNoteInput = (note: StickyNote): NoteInput => ({
+    id: note.id,
+    text: note.text,
+    position: note.position,
+    sourcePath: note.metadata.path,
+    title: note.metadata.title,
+    sourceType: note.metadata.sourceType,
+  });
+
+  const fromNoteRecord = (record: NoteRecord): StickyNote => ({
+    id: record.id,
+    text: record.text,
+    position: record.position,
+    savedPath: record.savedPath,
+    dist: { corpus_id: 0, score: 1, text: record.text },
+    metadata: {
+      path: record.sourcePath,
+      title: record.title,
+      created_at: record.createdAt / 1000,
+      modified_at: record.updatedAt / 1000,
+      filetype: 'markdown',
+      languages: [],
+      links: [],
+      owner: null,
+      seen_at: Date.now() / 1000,
+      sourceType: record.sourceType,
+    },
+  });
+
+  // Last persisted form of each note, so only real changes are written back
+  const savedNotesRef = useRef(new Map<string, string>());
+
+  // Restore the notes from the last session
+  useEffect(() => {
+    trpcClient.notes.list
+      .query()
+      .then((records) => {
+        const restored = records.map(fromNoteRecord);
+        restored.forEach((note) =>
+          savedNotesRef.current.set(note.id, JSON.stringify(toNoteInput(note)))
+        );
+        setStickyNotes((prev) => [
+          ...restored,
+          ...prev.filter((note) => !savedNotesRef.current.has(note.id)),
+        ]);
+      })
+      .catch((error) => console.error('Failed to load notes:', error));
+  }, []);
+
+  // Persist notes whenever their content or position changes
+  useEffect(() => {
+    stickyNotes.forEach((note) => {
+      const input = toNoteInput(note);
+      const serialized = JSON.stringify(input);
+      if (savedNotesRef.current.get(note.id) === serialized) return;
+
+      savedNotesRef.current.set(note.id, serialized);
+      trpcClient.notes.save
+        .mutate(input)
+        .catch((error) => console.error('Failed to save note:', error));
+    });
+  }, [stickyNotes]);
+
+  const removeStickyNote = useCallback((id: string) => {
+    setStickyNotes((prev) => prev.filter((n) => n.id !== id));
+    savedNotesRef.current.delete(id);
+    trpcClient.notes.delete
+      .mutate(id)
+      .catch((error) => console.error('Failed to delete note:', error));
+  }, []);
+
+  // Writes the note to the alBERT folder as markdown, where the indexer picks it up
+  const saveNoteToFile = useCallback(
+    async (id: string, text: string) => {
+      const note = stickyNotes.find((n) => n.id === id);
+      if (!note) return;
+
+      try {
+        const input = { ...toNoteInput(note), text };
+        const record = await trpcClient.notes.saveToFile.mutate(input);
+        savedNotesRef.current.set(id, JSON.stringify(input));
+        setStickyNotes((prev) =>
+          prev.map((n) =>
+            n.id === id
+              ? {
+                  ...n,
+                  text,
+                  savedPath: record.savedPath,
+                  metadata: { ...n.metadata, modified_at: record.updatedAt / 1000 },
+                }
+              : n
+          )
+        );
+      } catch (error) {
+        console.error('Failed to save note to file:', error);
+      }
+    },
+    [stickyNotes]
+  );
+
   // Add clearChat function
   const clearChat = useCallback(() => {
     setConversations([]);
+    selectThread(undefined);
     setQuery('');
     setSearchResults([]);
+    setImageResults([]);
     setShowResults(false);
     setSearchSteps([]);
     dispatch({ type: 'RESET' });
   }, []);
 
+  const openChatThread = useCallback(async (threadId: string) => {
+    try {
+      const thread = await trpcClient.chats.get.query(threadId);
+      selectThread(thread.id);
+      setConversations(thread.messages);
+      setActivePanel('response');
+    } catch (error) {
+      console.error('Failed to open chat:', error);
+    }
+  }, []);
+
+  const handleThreadDeleted = useCallback(
+    (threadId: string) => {
+      if (threadId === activeThreadIdRef.current) {
+        clearChat();
+      }
+    },
+    [clearChat]
+  );
+
   // Add this new function to handle creating sticky notes
   const createStickyNote = (
     result: SearchResult | { text: string; metadata: any },
@@ -1022,11 +1257,15 @@ Keep your response focused and concise.`,
         e.preventDefault();
         if (!query.trim() || isLoading) return;
 
+        // The full search below replaces whatever the streaming search is still doing
+        searchSubscriptionRef.current?.unsubscribe();
+        searchSubscriptionRef.current = null;
         setIsLoading(true);
+        setHasMoreResults(false);
         dispatch({ type: 'START_SEARCH', payload: { query } });
 
         try {
-          const quickResults = await trpcClient.search.quick.query(query);
+          const quickResults = await trpcClient.search.quick.query(toSearchInput(query));
           if (quickResults.length === 0) {
             setShowResults(false);
             dispatch({ type: 'SEARCH_ERROR', payload: 'No results found' });
@@ -1049,7 +1288,8 @@ Keep your response focused and concise.`,
 
           // Always start chat, but skip agent processing if useAgent is false
           dispatch({ type: 'START_CHAT', payload: { query, results: filteredResults } });
-          await askAIQuestion(query);
+          // Filter tokens only narrow the search, the model gets the plain question
+          await askAIQuestion(parseQuery(query).text || query);
           dispatch({ type: 'CHAT_COMPLETE' });
         } catch (error) {
           console.error('Search or chat failed:', error);
@@ -1102,7 +1342,11 @@ Keep your response focused and concise.`,
       // Handle right arrow for pinning context
       if (e.key === 'ArrowRight') {
         e.preventDefault();
-        if (activePanel === 'settings') {
+        if (
+          activePanel === 'settings' ||
+          activePanel === 'history' ||
+          activePanel === 'document'
+        ) {
           setActivePanel('response');
           return;
         }
@@ -1135,6 +1379,13 @@ Keep your response focused and concise.`,
         return;
       }
 
+      // Handle Cmd/Ctrl + Y to browse chat history
+      if ((e.metaKey || e.ctrlKey) && e.key === 'y') {
+        e.preventDefault();
+        setActivePanel(activePanel === 'history' ? 'response' : 'history');
+        return;
+      }
+
       // Handle Cmd/Ctrl + N for new note
       if ((e.metaKey || e.ctrlKey) && e.key === 'n') {
         e.preventDefault();
@@ -1192,7 +1443,8 @@ Keep your response focused and concise.`,
     onClose: (id: string) => void;
     onDrag: (id: string, position: { x: number; y: number }) => void;
     onEdit: (id: string, newText: string) => void;
-  }> = ({ note, onClose, onDrag, onEdit }) => {
+    onSaveToFile: (id: string, text: string) => void;
+  }> = ({ note, onClose, onDrag, onEdit, onSaveToFile }) => {
     const noteRef = useRef<HTMLDivElement>(null);
     const [isEditing, setIsEditing] = useState(false);
     const [localText, setLocalText] = useState(note.text);
@@ -1215,21 +1467,32 @@ Keep your response focused and concise.`,
       [note.id, debouncedSave]
     );
 
-    // Add image handling configuration
+    // Images are stored as attachments next to the note and linked by relative path
     const handleImageUpload = async (file: File): Promise<string> => {
       try {
-        // For now, we'll just return a data URL
-        return new Promise<string>((resolve) => {
+        const dataUrl = await new Promise<string>((resolve, reject) => {
           const reader = new FileReader();
           reader.onloadend = () => resolve(reader.result as string);
+          reader.onerror = () => reject(reader.error);
           reader.readAsDataURL(file);
         });
+        return await trpcClient.notes.addAttachment.mutate({
+          noteId: note.id,
+          name: file.name,
+          dataUrl,
+        });
       } catch (error) {
         console.error('Error uploading image:', error);
         throw error;
       }
     };
 
+    // The renderer can't load attachment files directly, preview them as data URLs
+    const handleImagePreview = async (src: string): Promise<string> =>
+      src.startsWith('attachments/')
+        ? await trpcClient.notes.readAttachment.query({ noteId: note.id, src })
+        : src;
+
     // Implement drag functionality using React DnD
     const [{ isDragging }, drag] = useDrag({
       type: 'stickyNote',
@@ -1307,12 +1570,21 @@ Keep your response focused and concise.`,
                   {note.metadata.path.split('/').pop()}
                 </h3>
               </div>
-              <button
-                onClick={() => onClose(note.id)}
-                className="opacity-0 group-hover:opacity-100 transition-opacity rounded-sm hover:bg-accent hover:text-accent-foreground p-1"
-              >
-                <X className="h-4 w-4" />
-              </button>
+              <div className="flex items-center">
+                <button
+                  onClick={() => onSaveToFile(note.id, localText)}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity rounded-sm hover:bg-accent hover:text-accent-foreground p-1"
+                  title={note.savedPath ? `Saved to ${note.savedPath}` : 'Save note to alBERT folder'}
+                >
+                  <FolderDown className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => onClose(note.id)}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity rounded-sm hover:bg-accent hover:text-accent-foreground p-1"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
             </div>
             <div
               className="text-xs text-muted-foreground mt-1.5 hover:text-primary cursor-pointer transition-colors truncate pl-6"
@@ -1341,7 +1613,10 @@ Keep your response focused and concise.`,
                     thematicBreakPlugin(),
                     frontmatterPlugin(),
                     codeBlockPlugin(),
-                    imagePlugin({ imageUploadHandler: handleImageUpload }),
+                    imagePlugin({
+                      imageUploadHandler: handleImageUpload,
+                      imagePreviewHandler: handleImagePreview,
+                    }),
                   ]}
                   contentEditableClassName="min-h-[280px] font-mono text-sm"
                   className={cn(
@@ -1356,9 +1631,10 @@ Keep your response focused and concise.`,
           {/* Footer */}
           <CardFooter className="p-3 pt-2 border-t border-border/50">
             <div className="flex items-center justify-between w-full text-xs text-muted-foreground">
-              <span>
+              <span title={note.savedPath}>
                 Modified:{' '}
                 {new Date(note.metadata.modified_at * 1000).toLocaleDateString()}
+                {note.savedPath && ' · Saved to alBERT'}
               </span>
               <span className="text-xs opacity-50 select-none">
                 {isEditing ? 'Editing...' : 'Drag to move'}
@@ -1441,6 +1717,9 @@ Keep your response focused and concise.`,
                         localStorage.setItem('use-agent', JSON.stringify(checked));
                       }}
                       handleInputChange={handleInputChange}
+                      onRemoveFilter={handleRemoveFilter}
+                      isPrivate={isPrivate}
+                      remoteServices={remoteServices}
                       data-highlight="search-input"
                     />
 
@@ -1448,9 +1727,14 @@ Keep your response focused and concise.`,
                     {showResults && (
                       <SearchResults
                         searchResults={searchResults}
+                        imageResults={imageResults}
                         selectedIndex={selectedIndex}
                         rankedChunks={rankedChunks}
                         createStickyNote={createStickyNote}
+                        hasMore={hasMoreResults}
+                        isLoadingMore={isLoadingMore}
+                        onLoadMore={loadMoreResults}
+                        onOpenChat={openChatThread}
                         data-highlight="search-results"
                       />
                     )}
@@ -1458,6 +1742,41 @@ Keep your response focused and concise.`,
                 </CardContent>
               </Card>
 
+              {/* Chat History Panel */}
+              {activePanel === 'history' && (
+                <Suspense fallback={<div>Loading Chat History...</div>}>
+                  <Card
+                    className="bg-background/95 shadow-2xl flex flex-col transition-all duration-200 rounded-xl overflow-hidden"
+                    style={{ width: 360 }}
+                  >
+                    <CardContent className="p-4 flex flex-col h-[600px]">
+                      <ChatHistoryPanel
+                        activeThreadId={activeThreadId}
+                        onOpenThread={openChatThread}
+                        onThreadDeleted={handleThreadDeleted}
+                      />
+                    </CardContent>
+                  </Card>
+                </Suspense>
+              )}
+
+              {/* Cited Source Panel */}
+              {activePanel === 'document' && openedSource && (
+                <Suspense fallback={<div>Loading Source...</div>}>
+                  <Card
+                    className="bg-background/95 shadow-2xl flex flex-col transition-all duration-200 rounded-xl overflow-hidden"
+                    style={{ width: 600 }}
+                  >
+                    <CardContent className="p-4 flex flex-col h-[600px]">
+                      <SourceViewer
+                        source={openedSource}
+                        onClose={() => setActivePanel('response')}
+                      />
+                    </CardContent>
+                  </Card>
+                </Suspense>
+              )}
+
               {/* AI Response Panel */}
               {conversations.length > 0 && activePanel === 'response' && (
                 <Suspense fallback={<div>Loading Response Panel...</div>}>
@@ -1473,6 +1792,8 @@ Keep your response focused and concise.`,
                         askAIQuestion={askAIQuestion}
                         isLoading={isLoading}
                         onNewChat={clearChat}
+                        onShowHistory={() => setActivePanel('history')}
+                        onOpenSource={openSource}
                         createStickyNote={createStickyNote}
                         dispatch={dispatch}
                         setSearchResults={setSearchResults}
@@ -1485,6 +1806,8 @@ Keep your response focused and concise.`,
               )}
             </div>
 
+            <IndexingStatus />
+
             <KeyboardShortcuts
               showDocument={activePanel === 'document'}
               activePanel={activePanel}
@@ -1498,9 +1821,8 @@ Keep your response focused and concise.`,
               <StickyNoteComponent
                 key={note.id}
                 note={note}
-                onClose={(id) => {
-                  setStickyNotes((prev) => prev.filter((n) => n.id !== id));
-                }}
+                onClose={removeStickyNote}
+                onSaveToFile={saveNoteToFile}
                 onDrag={(id, position) => {
                   // Direct update without requestAnimationFrame
                   setStickyNotes((prev) =>
@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Check, MessageSquare, Pencil, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/lib/utils'
+import { trpcClient } from '../util/trpc-client'
+
+type ChatThreadSummary = Awaited<ReturnType<typeof trpcClient.chats.list.query>>[number]
+
+interface ChatHistoryPanelProps {
+  activeThreadId?: string
+  onOpenThread: (threadId: string) => void
+  onThreadDeleted: (threadId: string) => void
+}
+
+const ChatHistoryPanel: React.FC<ChatHistoryPanelProps> = ({
+  activeThreadId,
+  onOpenThread,
+  onThreadDeleted
+}) => {
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([])
+  const [filter, setFilter] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [title, setTitle] = useState('')
+
+  const loadThreads = useCallback(async (query: string) => {
+    try {
+      setThreads(await trpcClient.chats.list.query(query))
+    } catch (err) {
+      console.error('Failed to load chat history:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadThreads(filter), 150)
+    return (): void => clearTimeout(timer)
+  }, [filter, activeThreadId, loadThreads])
+
+  const startRename = (thread: ChatThreadSummary): void => {
+    setEditingId(thread.id)
+    setTitle(thread.title)
+  }
+
+  const handleRename = async (threadId: string): Promise<void> => {
+    setEditingId(null)
+    if (!title.trim()) return
+    try {
+      await trpcClient.chats.rename.mutate({ threadId, title })
+      await loadThreads(filter)
+    } catch (err) {
+      console.error('Failed to rename chat:', err)
+    }
+  }
+
+  const handleDelete = async (threadId: string): Promise<void> => {
+    try {
+      await trpcClient.chats.delete.mutate(threadId)
+      onThreadDeleted(threadId)
+      await loadThreads(filter)
+    } catch (err) {
+      console.error('Failed to delete chat:', err)
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full" onClick={(e) => e.stopPropagation()}>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Chat History</h2>
+      </div>
+      <Input
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        onKeyDown={(e) => e.stopPropagation()}
+        placeholder="Search past chats..."
+        autoFocus
+      />
+      <ScrollArea className="flex-1 min-h-0 mt-2">
+        {threads.length === 0 && (
+          <p className="text-sm text-muted-foreground p-2">
+            {filter ? 'No chats match your search' : 'Your chats will show up here'}
+          </p>
+        )}
+        {threads.map((thread) => (
+          <div
+            key={thread.id}
+            className={cn(
+              'group flex items-start gap-2 rounded-md p-2 cursor-pointer hover:bg-accent/50',
+              thread.id === activeThreadId && 'bg-accent'
+            )}
+            onClick={() => editingId !== thread.id && onOpenThread(thread.id)}
+          >
+            <MessageSquare className="h-4 w-4 mt-1 shrink-0 text-muted-foreground" />
+            <div className="flex-1 min-w-0">
+              {editingId === thread.id ? (
+                <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                  <Input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      e.stopPropagation()
+                      if (e.key === 'Enter') handleRename(thread.id)
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    className="h-7"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => handleRename(thread.id)}>
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setEditingId(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm font-medium truncate">{thread.title}</p>
+              )}
+              <p className="text-xs text-muted-foreground truncate">{thread.preview}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(thread.updatedAt).toLocaleString()} · {thread.messageCount}{' '}
+                {thread.messageCount === 1 ? 'message' : 'messages'}
+                {thread.model && ` · ${thread.model}`}
+              </p>
+            </div>
+            {editingId !== thread.id && (
+              <div
+                className="flex opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Rename chat"
+                  onClick={() => startRename(thread)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Delete chat"
+                  onClick={() => handleDelete(thread.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </ScrollArea>
+    </div>
+  )
+}
+
+export default ChatHistoryPanel
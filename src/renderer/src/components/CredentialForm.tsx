@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Check, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { CredentialProvider } from '../../../shared/providers'
+import { trpcClient } from '../util/trpc-client'
+
+type CredentialStatus = Awaited<ReturnType<typeof trpcClient.credentials.status.query>>[number]
+type TestResult = Awaited<ReturnType<typeof trpcClient.credentials.test.mutate>>
+
+const PROVIDER_LABELS: Record<CredentialProvider, string> = {
+  openrouter: 'OpenRouter',
+  openai: 'OpenAI',
+  ollama: 'Ollama',
+  brave: 'Brave Search'
+}
+
+interface CredentialFormProps {
+  provider: CredentialProvider
+  baseUrl?: string
+  optional?: boolean
+}
+
+/**
+ * Key entry for one provider. Keys go straight to the encrypted store in the main process,
+ * the input is cleared once saved and the stored key is never read back.
+ */
+const CredentialForm: React.FC<CredentialFormProps> = ({ provider, baseUrl, optional }) => {
+  const [status, setStatus] = useState<CredentialStatus | null>(null)
+  const [key, setKey] = useState('')
+  const [result, setResult] = useState<TestResult | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const applyStatus = useCallback(
+    (statuses: CredentialStatus[]) => {
+      setStatus(statuses.find((s) => s.provider === provider) ?? null)
+    },
+    [provider]
+  )
+
+  useEffect(() => {
+    setResult(null)
+    trpcClient.credentials.status
+      .query()
+      .then(applyStatus)
+      .catch((err) => console.error('Failed to load credential status:', err))
+  }, [applyStatus])
+
+  const run = async (action: () => Promise<void>): Promise<void> => {
+    setIsBusy(true)
+    try {
+      await action()
+    } catch (err) {
+      setResult({ ok: false, message: err instanceof Error ? err.message : String(err) })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleSave = (): Promise<void> =>
+    run(async () => {
+      if (!key.trim()) return
+      applyStatus(await trpcClient.credentials.set.mutate({ provider, key }))
+      setKey('')
+      setResult({ ok: true, message: 'Key saved' })
+    })
+
+  const handleTest = (): Promise<void> =>
+    run(async () => {
+      setResult(
+        await trpcClient.credentials.test.mutate({
+          provider,
+          key: key.trim() || undefined,
+          baseUrl: baseUrl || undefined
+        })
+      )
+    })
+
+  const handleClear = (): Promise<void> =>
+    run(async () => {
+      applyStatus(await trpcClient.credentials.clear.mutate(provider))
+      setResult(null)
+    })
+
+  const description = !status?.configured
+    ? optional
+      ? 'Not configured (optional)'
+      : 'Not configured'
+    : status.source === 'env'
+      ? 'Using the key from the environment'
+      : 'Key stored encrypted on this device'
+
+  return (
+    <div className="grid gap-2">
+      <label htmlFor={`credential-${provider}`} className="text-sm font-medium">
+        {PROVIDER_LABELS[provider]} API Key
+      </label>
+      <div className="flex gap-2">
+        <Input
+          id={`credential-${provider}`}
+          type="password"
+          autoComplete="off"
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.stopPropagation()
+              handleSave()
+            }
+          }}
+          placeholder={status?.configured ? '••••••••' : 'Paste a key'}
+        />
+        <Button variant="outline" onClick={handleSave} disabled={isBusy || !key.trim()}>
+          Save
+        </Button>
+        <Button variant="outline" onClick={handleTest} disabled={isBusy}>
+          Test
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Remove stored key"
+          onClick={handleClear}
+          disabled={isBusy || status?.source !== 'stored'}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <span className="text-xs text-muted-foreground flex items-center gap-1">
+        {result ? (
+          <>
+            {result.ok ? (
+              <Check className="h-3 w-3 text-green-600" />
+            ) : (
+              <X className="h-3 w-3 text-destructive" />
+            )}
+            {result.message}
+          </>
+        ) : (
+          description
+        )}
+      </span>
+    </div>
+  )
+}
+
+export default CredentialForm
@@ -0,0 +1,204 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { AudioLines, FolderOpen, Plus, ScanText, Trash2 } from 'lucide-react'
+import { trpcClient } from '../util/trpc-client'
+
+type IndexRoot = Awaited<ReturnType<typeof trpcClient.indexRoots.list.query>>[number]
+
+const splitPatterns = (value: string): string[] =>
+  value
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+
+const formatSize = (bytes: number): string => `${Math.round(bytes / (1024 * 1024))} MB`
+
+const IndexRootsSettings: React.FC = () => {
+  const [roots, setRoots] = useState<IndexRoot[]>([])
+  const [newPath, setNewPath] = useState('')
+  const [include, setInclude] = useState('')
+  const [exclude, setExclude] = useState('**/node_modules/**')
+  const [maxSizeMb, setMaxSizeMb] = useState('50')
+  const [ocr, setOcr] = useState(false)
+  const [transcribe, setTranscribe] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRoots = useCallback(async () => {
+    try {
+      setRoots(await trpcClient.indexRoots.list.query())
+    } catch (err) {
+      console.error('Failed to load index roots:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRoots()
+  }, [loadRoots])
+
+  const handleAdd = async (): Promise<void> => {
+    if (!newPath.trim()) return
+    setError(null)
+    try {
+      await trpcClient.indexRoots.add.mutate({
+        path: newPath.trim(),
+        include: splitPatterns(include),
+        exclude: splitPatterns(exclude),
+        maxFileSize: Number(maxSizeMb) > 0 ? Number(maxSizeMb) * 1024 * 1024 : undefined,
+        ocr,
+        transcribe
+      })
+      setNewPath('')
+      setInclude('')
+      setOcr(false)
+      setTranscribe(false)
+      await loadRoots()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleToggleOcr = async (root: IndexRoot): Promise<void> => {
+    try {
+      await trpcClient.indexRoots.update.mutate({ id: root.id, ocr: !root.ocr })
+      await loadRoots()
+    } catch (err) {
+      console.error('Failed to update index root:', err)
+    }
+  }
+
+  const handleToggleTranscribe = async (root: IndexRoot): Promise<void> => {
+    try {
+      await trpcClient.indexRoots.update.mutate({ id: root.id, transcribe: !root.transcribe })
+      await loadRoots()
+    } catch (err) {
+      console.error('Failed to update index root:', err)
+    }
+  }
+
+  const handleRemove = async (id: string): Promise<void> => {
+    try {
+      await trpcClient.indexRoots.remove.mutate(id)
+      await loadRoots()
+    } catch (err) {
+      console.error('Failed to remove index root:', err)
+    }
+  }
+
+  return (
+    <div className="grid gap-2">
+      <label className="text-sm font-medium">Indexed Folders</label>
+      <ul className="grid gap-1">
+        {roots.map((root) => (
+          <li
+            key={root.id}
+            className="flex items-center justify-between gap-2 rounded-md border px-2 py-1"
+          >
+            <div className="min-w-0">
+              <div className="text-sm truncate" title={root.path}>
+                {root.path}
+              </div>
+              <div className="text-xs text-muted-foreground truncate">
+                {root.include.join(', ')}
+                {root.exclude.length > 0 && ` · excluding ${root.exclude.join(', ')}`}
+                {` · max ${formatSize(root.maxFileSize)}`}
+                {root.ocr && ' · OCR'}
+                {root.transcribe && ' · Transcripts'}
+              </div>
+            </div>
+            <div className="flex shrink-0">
+              <Button
+                variant={root.ocr ? 'secondary' : 'ghost'}
+                size="icon"
+                title={
+                  root.ocr
+                    ? 'Stop recognizing text in images and scanned PDFs'
+                    : 'Recognize text in images and scanned PDFs (slow)'
+                }
+                onClick={() => handleToggleOcr(root)}
+              >
+                <ScanText className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={root.transcribe ? 'secondary' : 'ghost'}
+                size="icon"
+                title={
+                  root.transcribe
+                    ? 'Stop transcribing audio and video recordings'
+                    : 'Transcribe audio and video recordings (slow)'
+                }
+                onClick={() => handleToggleTranscribe(root)}
+              >
+                <AudioLines className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Open folder"
+                onClick={() => trpcClient.folder.open.mutate(root.path)}
+              >
+                <FolderOpen className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Stop indexing this folder"
+                onClick={() => handleRemove(root.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div className="grid gap-2">
+        <div className="flex gap-2">
+          <Input
+            value={newPath}
+            onChange={(e) => setNewPath(e.target.value)}
+            placeholder="~/projects/docs"
+          />
+          <Button variant="outline" size="icon" title="Add folder" onClick={handleAdd}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={include}
+            onChange={(e) => setInclude(e.target.value)}
+            placeholder="Include (e.g. **/*.md, **/*.pdf)"
+          />
+          <Input
+            value={exclude}
+            onChange={(e) => setExclude(e.target.value)}
+            placeholder="Exclude (e.g. **/drafts/**)"
+          />
+          <Input
+            className="w-24"
+            type="number"
+            min={1}
+            value={maxSizeMb}
+            onChange={(e) => setMaxSizeMb(e.target.value)}
+            title="Max file size (MB)"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="index-root-ocr" checked={ocr} onCheckedChange={setOcr} />
+          <label htmlFor="index-root-ocr" className="text-xs text-muted-foreground">
+            Recognize text in images and scanned PDFs (OCR, CPU-heavy)
+          </label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="index-root-transcribe" checked={transcribe} onCheckedChange={setTranscribe} />
+          <label htmlFor="index-root-transcribe" className="text-xs text-muted-foreground">
+            Transcribe audio and video recordings (Whisper, CPU-heavy)
+          </label>
+        </div>
+        {error && <span className="text-xs text-destructive">{error}</span>}
+      </div>
+    </div>
+  )
+}
+
+export default IndexRootsSettings
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Loader2, Pause, Play, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { trpcClient } from '../util/trpc-client'
+
+type IndexingStatusData = Awaited<ReturnType<typeof trpcClient.indexing.status.query>>
+
+const POLL_INTERVAL_MS = 1000
+
+const formatEta = (seconds: number | null): string => {
+  if (seconds === null) return ''
+  if (seconds < 60) return `${seconds}s left`
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m left`
+  return `${(seconds / 3600).toFixed(1)}h left`
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function IndexingStatus(): JSX.Element | null {
+  const [status, setStatus] = useState<IndexingStatusData | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setStatus(await trpcClient.indexing.status.query())
+    } catch (error) {
+      console.error('Failed to fetch indexing status:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    const interval = setInterval(refresh, POLL_INTERVAL_MS)
+    return (): void => clearInterval(interval)
+  }, [refresh])
+
+  if (!status || status.state === 'idle') return null
+
+  const isPaused = status.state === 'paused'
+
+  return (
+    <div className="flex items-center gap-3 mt-4 px-4 py-2 rounded-xl bg-background/95 shadow text-xs text-muted-foreground">
+      {!isPaused && <Loader2 className="h-3 w-3 animate-spin shrink-0" />}
+      <div className="flex-1 min-w-0 grid gap-1">
+        <div className="flex justify-between gap-2">
+          <span className="truncate" title={status.currentFile ?? undefined}>
+            {status.state === 'enumerating'
+              ? 'Scanning folders...'
+              : isPaused
+                ? 'Indexing paused'
+                : status.status || 'Indexing...'}
+          </span>
+          <span className="shrink-0">
+            {status.filesDone}/{status.filesTotal} files
+            {status.bytesTotal > 0 &&
+              ` · ${formatBytes(status.bytesDone)} of ${formatBytes(status.bytesTotal)}`}
+            {!isPaused && status.etaSeconds !== null && ` · ${formatEta(status.etaSeconds)}`}
+          </span>
+        </div>
+        <Progress value={status.progress} className="h-1" />
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        title={isPaused ? 'Resume indexing' : 'Pause indexing'}
+        onClick={async () =>
+          setStatus(
+            await (isPaused
+              ? trpcClient.indexing.resume.mutate()
+              : trpcClient.indexing.pause.mutate())
+          )
+        }
+      >
+        {isPaused ? <Play className="h-3 w-3" /> : <Pause className="h-3 w-3" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        title="Cancel indexing"
+        onClick={async () => setStatus(await trpcClient.indexing.cancel.mutate())}
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  )
+}
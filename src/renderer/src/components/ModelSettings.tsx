@@ -0,0 +1,152 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { trpcClient } from '../util/trpc-client'
+
+type ModelsState = Awaited<ReturnType<typeof trpcClient.models.list.query>>
+
+const ModelSettings: React.FC = () => {
+  const [state, setState] = useState<ModelsState | null>(null)
+  const [isSwitching, setIsSwitching] = useState(false)
+  const [name, setName] = useState('')
+  const [baseUrl, setBaseUrl] = useState('http://localhost:11434/v1')
+  const [model, setModel] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const loadModels = useCallback(async () => {
+    try {
+      setState(await trpcClient.models.list.query())
+    } catch (err) {
+      console.error('Failed to load models:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadModels()
+  }, [loadModels])
+
+  const run = async (action: () => Promise<unknown>): Promise<void> => {
+    setError(null)
+    try {
+      await action()
+      await loadModels()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleEmbeddingModelChange = async (id: string): Promise<void> => {
+    setIsSwitching(true)
+    await run(() => trpcClient.models.setEmbeddingModel.mutate(id))
+    setIsSwitching(false)
+  }
+
+  const handleAddEndpoint = async (): Promise<void> => {
+    if (!name.trim() || !model.trim()) return
+    await run(async () => {
+      await trpcClient.models.addEndpoint.mutate({
+        name: name.trim(),
+        baseUrl: baseUrl.trim(),
+        model: model.trim()
+      })
+      setName('')
+      setModel('')
+    })
+  }
+
+  if (!state) return null
+
+  const indexModel = state.embeddingModels.find((m) => m.id === state.index?.modelId)
+
+  return (
+    <div className="grid gap-2">
+      <label className="text-sm font-medium">Embedding Model</label>
+      <Select
+        value={state.embeddingModel}
+        onValueChange={handleEmbeddingModelChange}
+        disabled={isSwitching}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {state.embeddingModels.map((m) => (
+            <SelectItem key={m.id} value={m.id}>
+              {m.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="text-xs text-muted-foreground">
+        {state.index
+          ? `Index built with ${indexModel?.name ?? state.index.modelId} (${state.index.dimension} dimensions). `
+          : ''}
+        Switching models re-embeds every indexed file in the background.
+      </span>
+      {state.embeddingModels
+        .filter((m) => m.id.startsWith('custom:'))
+        .map((m) => (
+          <div
+            key={m.id}
+            className="flex items-center justify-between gap-2 rounded-md border px-2 py-1"
+          >
+            <span className="text-xs text-muted-foreground truncate" title={m.baseUrl}>
+              {m.name} · {m.model} via {m.baseUrl}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              title={m.id === state.embeddingModel ? 'Endpoint in use' : 'Remove endpoint'}
+              disabled={m.id === state.embeddingModel}
+              onClick={() => run(() => trpcClient.models.removeEndpoint.mutate(m.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      <div className="flex gap-2">
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" />
+        <Input
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          placeholder="OpenAI-compatible base URL"
+        />
+        <Input
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+          placeholder="Model (e.g. mxbai-embed-large)"
+        />
+        <Button variant="outline" size="icon" title="Add endpoint" onClick={handleAddEndpoint}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      <label className="text-sm font-medium">Reranker Model</label>
+      <Select
+        value={state.rerankerModel}
+        onValueChange={(value) => run(() => trpcClient.models.setRerankerModel.mutate(value))}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {state.rerankerModels.map((m) => (
+            <SelectItem key={m} value={m}>
+              {m}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </div>
+  )
+}
+
+export default ModelSettings
@@ -7,8 +7,10 @@ import {
   PinIcon, 
   Settings, 
   ArrowRight,
-  Keyboard
+  Keyboard,
+  KeyRound
 } from 'lucide-react'
+import CredentialForm from './CredentialForm'
 
 interface OnboardingStep {
   id: number
@@ -18,6 +20,7 @@ interface OnboardingStep {
   tooltipPosition: 'top' | 'bottom' | 'left' | 'right'
   tooltipOffset?: number // Optional offset from the target
   icon: React.ReactNode
+  content?: React.ReactNode // Optional controls shown below the description
 }
 
 const steps: OnboardingStep[] = [
@@ -66,6 +69,16 @@ const steps: OnboardingStep[] = [
   },
   {
     id: 6,
+    title: "Connect an AI Provider",
+    description: "alBERT doesn't ship with an API key. Add your OpenRouter key to use cloud models and web answers, it is stored encrypted on this device. Private mode works with local models and needs no key.",
+    targetSelector: '[data-highlight="settings-toggle"]',
+    tooltipPosition: 'left',
+    tooltipOffset: 10,
+    icon: <KeyRound className="w-6 h-6" />,
+    content: <CredentialForm provider="openrouter" optional />
+  },
+  {
+    id: 7,
     title: "Keyboard Shortcuts",
     description: "Use ↑↓ to navigate results, Enter to chat, Ctrl/Cmd+N for new note, and more!",
     targetSelector: '[data-highlight="keyboard-shortcuts"]',
@@ -208,6 +221,8 @@ export function Onboarding({ onComplete }: OnboardingProps): JSX.Element {
             {step.description}
           </p>
 
+          {step.content && <div className="mb-6">{step.content}</div>}
+
           <div className="flex justify-between items-center">
             <Button variant="ghost" onClick={handleSkip}>
               Skip Tour
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { trpcClient } from '../util/trpc-client'
+
+type RerankSettingsData = Awaited<ReturnType<typeof trpcClient.search.getRerankSettings.query>>
+
+const RerankSettings: React.FC = () => {
+  const [settings, setSettings] = useState<RerankSettingsData | null>(null)
+  const [topK, setTopK] = useState('')
+  const [minScore, setMinScore] = useState('')
+
+  const apply = (saved: RerankSettingsData): void => {
+    setSettings(saved)
+    setTopK(String(saved.topK))
+    setMinScore(String(saved.minScore))
+  }
+
+  useEffect(() => {
+    trpcClient.search.getRerankSettings
+      .query()
+      .then(apply)
+      .catch((err) => console.error('Failed to load rerank settings:', err))
+  }, [])
+
+  const save = async (update: Partial<RerankSettingsData>): Promise<void> => {
+    try {
+      apply(await trpcClient.search.setRerankSettings.mutate(update))
+    } catch (err) {
+      console.error('Failed to save rerank settings:', err)
+      if (settings) apply(settings)
+    }
+  }
+
+  if (!settings) return null
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between">
+        <div className="grid gap-1">
+          <label htmlFor="rerank" className="text-sm font-medium">
+            Rerank Results
+          </label>
+          <span className="text-xs text-muted-foreground">
+            Reorder local hits with a cross-encoder before showing them
+          </span>
+        </div>
+        <Switch
+          id="rerank"
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => save({ enabled })}
+          className="data-[state=checked]:bg-primary"
+        />
+      </div>
+      {settings.enabled && (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={topK}
+            onChange={(e) => setTopK(e.target.value)}
+            onBlur={() => save({ topK: Math.round(Number(topK)) })}
+            title="Results kept per page"
+          />
+          <Input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={minScore}
+            onChange={(e) => setMinScore(e.target.value)}
+            onBlur={() => save({ minScore: Number(minScore) })}
+            title="Minimum relevance score (0-1)"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RerankSettings
@@ -1,12 +1,15 @@
-import React, { useRef, useState, useEffect } from 'react'
+import React, { useRef, useState, useEffect, useMemo } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Button } from '@/components/ui/button'
-import { Loader2, Plus, Send, FileText, ExternalLink } from 'lucide-react'
+import { Loader2, Plus, Send, FileText, ExternalLink, History } from 'lucide-react'
 import ReactMarkdown from 'react-markdown'
 import { useDrag } from 'react-dnd'
 import { Input } from '@/components/ui/input'
 import { trpcClient } from '../util/trpc-client'
+import { parseQuery, toSearchInput } from '@/lib/query-parser'
+import { citationId, linkCitations, parseCitationIds, type CitedSource } from '@/lib/citations'
+import type { ContextReport, ExclusionReason } from '@/lib/context-builder'
 
 interface ResponsePanelProps {
   conversations: AIResponse[]
@@ -14,6 +17,8 @@ interface ResponsePanelProps {
   askAIQuestion: (originalQuery: string) => Promise<void>
   isLoading: boolean
   onNewChat: () => void
+  onShowHistory?: () => void
+  onOpenSource?: (source: AnswerSource) => void
   onDragStart?: () => void
   onDragEnd?: () => void
   createStickyNote?: (
@@ -29,15 +34,17 @@ interface ResponsePanelProps {
   filterOutStickyNotes: (results: SearchResult[]) => SearchResult[]
 }
 
+type AnswerSource = Partial<CitedSource> & {
+  path: string
+  citations?: string[]
+}
+
 interface AIResponse {
   question: string
   answer: string
   timestamp: number
-  sources?: Array<{
-    path: string
-    preview?: string
-    citations?: string[]
-  }>
+  sources?: AnswerSource[]
+  context?: ContextReport
   commit?: {
     hash: string
     message: string
@@ -45,7 +52,11 @@ interface AIResponse {
   }
 }
 
-const handlePathClick = async (path: string, e: React.MouseEvent): Promise<void> => {
+const handlePathClick = async (
+  path: string,
+  e: React.MouseEvent,
+  page?: number
+): Promise<void> => {
   e.preventDefault()
   e.stopPropagation()
 
@@ -53,7 +64,7 @@ const handlePathClick = async (path: string, e: React.MouseEvent): Promise<void>
     window.open(path, '_blank')
   } else {
     try {
-      await trpcClient.document.open.mutate(path)
+      await trpcClient.document.open.mutate({ path, page })
     } catch (error) {
       console.error('Failed to open document:', error)
     }
@@ -74,13 +85,119 @@ const MarkdownLink = ({ href, children }: { href?: string; children: React.React
   )
 }
 
+const EXCLUSION_LABELS: Record<ExclusionReason, string> = {
+  budget: 'did not fit the context window',
+  'source-limit': 'enough passages from this source already',
+  history: 'already in the conversation'
+}
+
+// What the answer model was given, and why documents were cut or left out
+const ContextSummary = ({ report }: { report: ContextReport }): JSX.Element => {
+  const included = report.documents.filter((document) => document.includedChunks > 0)
+  const excluded = report.documents.filter((document) => document.includedChunks === 0)
+
+  return (
+    <details className="mt-4 text-xs text-muted-foreground">
+      <summary className="cursor-pointer select-none">
+        Context: {included.length} of {report.documents.length} documents,{' '}
+        {(report.contextTokens + report.historyTokens).toLocaleString()} of{' '}
+        {report.contextWindow.toLocaleString()} tokens
+      </summary>
+      <div className="mt-2 space-y-2">
+        <p>
+          {report.contextTokens.toLocaleString()} tokens of passages and{' '}
+          {report.historyTokens.toLocaleString()} tokens of history ({report.historyMessages}{' '}
+          messages) from a budget of {report.budget.toLocaleString()} for {report.model}.
+        </p>
+        {included.length > 0 && (
+          <ul className="space-y-0.5">
+            {included.map((document) => (
+              <li key={document.path} className="break-all" title={document.path}>
+                {document.pinned ? 'Pinned: ' : ''}
+                {document.title || document.path} · {document.includedChunks}/
+                {document.totalChunks} passages, {document.tokens.toLocaleString()} tokens
+                {document.excluded && ` (rest ${EXCLUSION_LABELS[document.excluded]})`}
+              </li>
+            ))}
+          </ul>
+        )}
+        {excluded.length > 0 && (
+          <div>
+            <span className="font-medium">Left out</span>
+            <ul className="space-y-0.5">
+              {excluded.map((document) => (
+                <li key={document.path} className="break-all" title={document.path}>
+                  {document.title || document.path} ·{' '}
+                  {document.excluded ? EXCLUSION_LABELS[document.excluded] : 'not ranked'}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </details>
+  )
+}
+
 const ResponseItem = React.forwardRef<
   HTMLDivElement,
   {
     response: AIResponse
     createStickyNote?: ResponsePanelProps['createStickyNote']
+    onOpenSource?: ResponsePanelProps['onOpenSource']
   }
->(({ response, createStickyNote }, ref) => {
+>(({ response, createStickyNote, onOpenSource }, ref) => {
+  const numbered = useMemo(
+    () => (response.sources ?? []).filter((source): source is CitedSource => source.id !== undefined),
+    [response.sources]
+  )
+  // Sources the answer actually cites, in citation order. Answers without markers list
+  // everything they were given.
+  const listedSources = useMemo(() => {
+    const cited = parseCitationIds(response.answer)
+      .map((id) => numbered.find((source) => source.id === id))
+      .filter((source): source is CitedSource => source !== undefined)
+    return cited.length > 0 ? cited : (response.sources ?? [])
+  }, [response.answer, response.sources, numbered])
+
+  const openSource = (source: AnswerSource, e: React.MouseEvent): void => {
+    if (onOpenSource) {
+      e.preventDefault()
+      e.stopPropagation()
+      onOpenSource(source)
+    } else {
+      handlePathClick(source.path, e, source.location?.page)
+    }
+  }
+
+  // Citation links become numbered markers opening the cited passage
+  const CitationLink = ({
+    href,
+    children
+  }: {
+    href?: string
+    children?: React.ReactNode
+  }): JSX.Element => {
+    const id = href ? citationId(href) : null
+    const source = id !== null ? numbered.find((candidate) => candidate.id === id) : undefined
+    if (!source) return <MarkdownLink href={href}>{children}</MarkdownLink>
+
+    return (
+      <sup>
+        <a
+          href="#"
+          onClick={(e) => openSource(source, e)}
+          title={[source.title || source.path, source.location?.section]
+            .filter(Boolean)
+            .join(' · ')}
+          className="text-primary no-underline hover:underline"
+        >
+          [{source.id}]
+        </a>
+      </sup>
+    )
+  }
+
   const [{ isDragging }, drag] = useDrag({
     type: 'searchResult',
     item: () => ({
@@ -136,12 +253,8 @@ const ResponseItem = React.forwardRef<
               </span>
             </div>
             <div className="prose prose-sm dark:prose-invert max-w-none">
-              <ReactMarkdown
-                components={{
-                  a: MarkdownLink
-                }}
-              >
-                {response.answer}
+              <ReactMarkdown components={{ a: CitationLink }}>
+                {linkCitations(response.answer, numbered)}
               </ReactMarkdown>
             </div>
             
@@ -160,25 +273,44 @@ const ResponseItem = React.forwardRef<
               </div>
             )}
 
-            {response.sources && response.sources.length > 0 && (
+            {listedSources.length > 0 && (
               <div className="mt-4">
                 <h4 className="text-sm font-medium mb-2">Sources:</h4>
                 <ul className="text-sm space-y-1">
-                  {response.sources.map((source, index) => (
-                    <li key={index} className="flex items-center gap-2">
-                      <FileText className="h-3 w-3" />
-                      <a
-                        href="#"
-                        onClick={(e) => handlePathClick(source.path, e)}
-                        className="text-primary hover:underline hover:text-primary/80 transition-colors"
-                      >
-                        {source.path}
-                      </a>
+                  {listedSources.map((source, index) => (
+                    <li key={source.id ?? index} className="flex items-start gap-2">
+                      {source.id !== undefined ? (
+                        <span className="text-xs text-muted-foreground mt-0.5">[{source.id}]</span>
+                      ) : (
+                        <FileText className="h-3 w-3 mt-1" />
+                      )}
+                      <div className="min-w-0">
+                        <a
+                          href="#"
+                          onClick={(e) => openSource(source, e)}
+                          className="text-primary hover:underline hover:text-primary/80 transition-colors break-all"
+                        >
+                          {source.title || source.path}
+                        </a>
+                        {source.location?.section && (
+                          <span className="text-xs text-muted-foreground">
+                            {' '}
+                            · {source.location.section}
+                          </span>
+                        )}
+                        {source.id !== undefined && source.preview && (
+                          <p className="text-xs text-muted-foreground line-clamp-2">
+                            {source.preview}
+                          </p>
+                        )}
+                      </div>
                     </li>
                   ))}
                 </ul>
               </div>
             )}
+
+            {response.context && <ContextSummary report={response.context} />}
           </div>
         </CardContent>
       </Card>
@@ -190,6 +322,8 @@ const ResponsePanel: React.FC<ResponsePanelProps> = ({
   conversations,
   isLoading,
   onNewChat,
+  onShowHistory,
+  onOpenSource,
   createStickyNote,
   askAIQuestion,
   dispatch,
@@ -227,7 +361,7 @@ const ResponsePanel: React.FC<ResponsePanelProps> = ({
     dispatch({ type: 'START_SEARCH', payload: { query: followUpQuestion } })
 
     try {
-      const quickResults = await trpcClient.search.quick.query(followUpQuestion)
+      const quickResults = await trpcClient.search.quick.query(toSearchInput(followUpQuestion))
       
       if (quickResults.length === 0) {
         setShowResults(false)
@@ -247,7 +381,7 @@ const ResponsePanel: React.FC<ResponsePanelProps> = ({
         } 
       })
 
-      await askAIQuestion(followUpQuestion)
+      await askAIQuestion(parseQuery(followUpQuestion).text || followUpQuestion)
       dispatch({ type: 'CHAT_COMPLETE' })
     } catch (error) {
       console.error('Search or chat failed:', error)
@@ -266,9 +400,16 @@ const ResponsePanel: React.FC<ResponsePanelProps> = ({
       <CardContent className="flex-1 p-0 flex flex-col h-full">
         <div className="flex-none flex items-center justify-between p-4 border-b">
           <h2 className="text-lg font-semibold">AI Responses</h2>
-          <Button variant="ghost" size="icon" onClick={onNewChat} title="New Chat">
-            <Plus className="h-4 w-4" />
-          </Button>
+          <div className="flex gap-1">
+            {onShowHistory && (
+              <Button variant="ghost" size="icon" onClick={onShowHistory} title="Chat History">
+                <History className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={onNewChat} title="New Chat">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
         <ScrollArea 
           className="flex-1 min-h-0"
@@ -285,6 +426,7 @@ const ResponsePanel: React.FC<ResponsePanelProps> = ({
                 key={index} 
                 response={response} 
                 createStickyNote={createStickyNote}
+                onOpenSource={onOpenSource}
                 ref={index === conversations.length - 1 ? lastMessageRef : undefined}
               />
             ))}
@@ -2,7 +2,7 @@ import React, { useEffect, useRef } from 'react'
 import { Badge } from '@/components/ui/badge'
 import type { SearchResult } from '../App'
 import { cn } from '@/lib/utils'
-import { Loader2, CheckCircle2, XCircle } from 'lucide-react'
+import { Loader2, CheckCircle2, XCircle, FileSearch, FileText, Globe, Link } from 'lucide-react'
 
 export interface SearchStep {
   id: string
@@ -10,6 +10,14 @@ export interface SearchStep {
   status: 'waiting' | 'searching' | 'thinking' | 'complete' | 'failed'
   results?: SearchResult[]
   answer?: string
+  tool?: string // Agent tool that ran this step, its input is shown as the query
+}
+
+const TOOL_ICONS: Record<string, React.ReactNode> = {
+  searchLocal: <FileSearch className="h-3 w-3" />,
+  fetchDocument: <FileText className="h-3 w-3" />,
+  searchWeb: <Globe className="h-3 w-3" />,
+  readUrl: <Link className="h-3 w-3" />
 }
 
 export default function SearchBadges({ steps }: { steps: SearchStep[] }): JSX.Element {
@@ -72,7 +80,8 @@ export default function SearchBadges({ steps }: { steps: SearchStep[] }): JSX.El
             )}
           >
             {getStatusIcon(step.status)}
-            {step.query}
+            {step.tool && TOOL_ICONS[step.tool]}
+            <span title={step.tool ? `${step.tool}: ${step.query}` : undefined}>{step.query}</span>
             {step.answer && (
               <span className="ml-2 text-xs opacity-75">
                 → {step.answer}
@@ -1,7 +1,9 @@
-import React, { useRef, useImperativeHandle, forwardRef } from 'react';
+import React, { useRef, useImperativeHandle, forwardRef, useMemo } from 'react';
 import { Input } from '@/components/ui/input';
-import { Search, Loader2, Lock, LockOpen, FastForwardIcon, BotIcon } from 'lucide-react';
+import { Search, Loader2, Lock, LockOpen, FastForwardIcon, BotIcon, Globe, X } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { parseQuery } from '@/lib/query-parser';
 
 interface SearchBarProps {
   query: string;
@@ -10,8 +12,21 @@ interface SearchBarProps {
   useAgent: boolean;
   handleAgentToggle: (checked: boolean) => void;
   handleInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onRemoveFilter?: (raw: string) => void;
+  isPrivate: boolean;
+  remoteServices: string[]; // Remote services the current query reached
 }
 
+const SERVICE_LABELS: Record<string, string> = {
+  openrouter: 'OpenRouter',
+  openai: 'OpenAI',
+  ollama: 'Ollama',
+  brave: 'Brave Search',
+  perplexity: 'Perplexity',
+  web: 'Web pages',
+  embeddings: 'Embedding endpoint',
+};
+
 export interface SearchBarRef {
   focus: () => void;
 }
@@ -22,8 +37,12 @@ const SearchBar = forwardRef<SearchBarRef, SearchBarProps>(({
   useAgent,
   handleAgentToggle,
   handleInputChange,
+  onRemoveFilter,
+  isPrivate,
+  remoteServices,
 }, ref) => {
   const inputRef = useRef<HTMLInputElement>(null);
+  const filterTokens = useMemo(() => parseQuery(query).tokens, [query]);
 
   useImperativeHandle(ref, () => ({
     focus: () => {
@@ -32,36 +51,81 @@ const SearchBar = forwardRef<SearchBarRef, SearchBarProps>(({
   }));
 
   return (
-    <div className="relative rounded-t-xl overflow-hidden">
-      <Search 
-        className="absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground h-5 w-5" 
-      />
-      <Input
-        ref={inputRef}
-        type="text"
-        value={query}
-        onChange={handleInputChange}
-        placeholder={query ? 'Ask a follow-up question...' : 'Search...'}
-        className="w-full pl-12 pr-24 py-4 text-xl border-none focus-visible:ring-0 bg-background/95 backdrop-blur-sm text-foreground"
-      />
-      <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
-        <div className="flex items-center gap-2">
-          <span className="text-xs text-muted-foreground">
-            {useAgent ? (
-              <BotIcon className="h-4 w-4" />
-            ) : (
-              <FastForwardIcon className="h-4 w-4" />
-            )}
+    <div className="rounded-t-xl overflow-hidden">
+      <div className="relative">
+        <Search 
+          className="absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground h-5 w-5" 
+        />
+        <Input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={handleInputChange}
+          placeholder={query ? 'Ask a follow-up question...' : 'Search...'}
+          className="w-full pl-12 pr-32 py-4 text-xl border-none focus-visible:ring-0 bg-background/95 backdrop-blur-sm text-foreground"
+        />
+        <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
+          <span
+            className="text-muted-foreground"
+            title={
+              isPrivate
+                ? 'Private mode: nothing leaves this machine'
+                : remoteServices.length > 0
+                  ? `This query reached ${remoteServices.map((service) => SERVICE_LABELS[service] ?? service).join(', ')}`
+                  : 'No remote services used for this query'
+            }
+          >
+            {isPrivate ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
           </span>
-          <Switch
-            checked={useAgent}
-            onCheckedChange={handleAgentToggle}
-            className="data-[state=checked]:bg-primary"
-            title={useAgent ? "Agent-assisted search enabled" : "Direct search"}
-          />
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">
+              {useAgent ? (
+                <BotIcon className="h-4 w-4" />
+              ) : (
+                <FastForwardIcon className="h-4 w-4" />
+              )}
+            </span>
+            <Switch
+              checked={useAgent}
+              onCheckedChange={handleAgentToggle}
+              className="data-[state=checked]:bg-primary"
+              title={useAgent ? "Agent-assisted search enabled" : "Direct search"}
+            />
+          </div>
+          {isLoading && <Loader2 className="h-5 w-5 animate-spin ml-2" />}
         </div>
-        {isLoading && <Loader2 className="h-5 w-5 animate-spin ml-2" />}
       </div>
+      {!isPrivate && remoteServices.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 px-4 pb-2 bg-background/95 text-xs text-muted-foreground">
+          <Globe className="h-3 w-3" />
+          Sent to
+          {remoteServices.map((service) => (
+            <Badge key={service} variant="outline" className="font-normal">
+              {SERVICE_LABELS[service] ?? service}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {filterTokens.length > 0 && (
+        <div className="flex flex-wrap gap-1 px-4 pb-2 bg-background/95">
+          {filterTokens.map((token) => (
+            <Badge key={token.raw} variant="secondary" className="gap-1 font-normal">
+              <span className="text-muted-foreground">{token.key}:</span>
+              {token.value}
+              {onRemoveFilter && (
+                <button
+                  type="button"
+                  className="ml-1 rounded-full hover:text-foreground"
+                  title={`Remove ${token.raw}`}
+                  onClick={() => onRemoveFilter(token.raw)}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+      )}
     </div>
   );
 });
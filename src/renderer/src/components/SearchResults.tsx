@@ -1,15 +1,26 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
-import { FileText, ExternalLink, Globe } from 'lucide-react';
+import {
+  FileText,
+  ExternalLink,
+  Globe,
+  Image as ImageIcon,
+  Loader2,
+  MessageSquare,
+  Mic,
+} from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
 import { trpcClient } from '../util/trpc-client';
 import { RankedChunk } from '@/lib/context-utils';
+import { getChatThreadId } from '@/lib/chat-history';
 import { useDrag } from 'react-dnd';
+import type { ChunkLocation, ImageSearchResult } from '../../../main/types';
 
 interface SearchResult {
   text: string;
+  score?: number;
   dist: number;
   metadata: {
     path: string;
@@ -22,17 +33,24 @@ interface SearchResult {
     owner: string | null;
     seen_at: number;
     sourceType?: 'document' | 'web';
+    location?: ChunkLocation;
+    ocrConfidence?: number;
   };
 }
 
 interface SearchResultsProps {
   searchResults: SearchResult[];
+  imageResults?: ImageSearchResult[];
   selectedIndex: number;
   rankedChunks: RankedChunk[];
   createStickyNote: (
     result: SearchResult,
     position: { x: number; y: number }
   ) => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  onOpenChat?: (threadId: string) => void;
 }
 
 interface DropResult {
@@ -40,20 +58,28 @@ interface DropResult {
   y: number;
 }
 
-const handlePathClick = async (path: string, e: React.MouseEvent): Promise<void> => {
+const handlePathClick = async (
+  path: string,
+  e: React.MouseEvent,
+  page?: number
+): Promise<void> => {
   e.stopPropagation();
 
   if (path.startsWith('http')) {
     window.open(path, '_blank');
   } else {
     try {
-      await trpcClient.document.open.mutate(path);
+      await trpcClient.document.open.mutate({ path, page });
     } catch (error) {
       console.error('Failed to open document:', error);
     }
   }
 };
 
+// Recordings are streamed by the main process, the fragment starts playback at `time`
+const mediaUrl = (path: string, time: number): string =>
+  `media://local/${encodeURIComponent(path)}#t=${time}`;
+
 const truncateText = (text: string, maxLength: number = 150): string => {
   if (text.length <= maxLength) return text;
   return text.slice(0, maxLength) + '...';
@@ -65,7 +91,8 @@ const SearchResultItem: React.FC<{
   index: number;
   selectedIndex: number;
   createStickyNote: (result: SearchResult, position: { x: number; y: number }) => void;
-}> = ({ result, chunk, index, selectedIndex, createStickyNote }) => {
+  onOpenChat?: (threadId: string) => void;
+}> = ({ result, chunk, index, selectedIndex, createStickyNote, onOpenChat }) => {
   const [{ isDragging }, drag] = useDrag({
     type: 'searchResult',
     item: () => ({
@@ -87,10 +114,11 @@ const SearchResultItem: React.FC<{
     },
   });
 
+  const chatThreadId = getChatThreadId(result.metadata.path);
   const isWebSource =
     result.metadata.sourceType === 'web' ||
     result.metadata.path.startsWith('http');
-  const displayName = isWebSource
+  const displayName = isWebSource || chatThreadId
     ? truncateText(
         result.metadata.title ||
           result.metadata.path.split('/').pop() ||
@@ -99,7 +127,27 @@ const SearchResultItem: React.FC<{
       )
     : truncateText(result.metadata.path.split('/').pop() || '', 50);
 
+  // Transcript chunks play back from the moment their words were said
+  const startTime = result.metadata.location?.startTime;
+  const isRecording = startTime !== undefined;
+  const [isPlaying, setIsPlaying] = useState(false);
+
   const truncatedContent = truncateText(chunk.combinedText, 500);
+  // Prefer the search reranker's score, the chunk score covers web answers
+  const relevance = result.score ?? chunk.score;
+
+  // Past chats reopen in the response panel instead of an external app
+  const handleOpen = (e: React.MouseEvent): void => {
+    if (chatThreadId) {
+      e.stopPropagation();
+      onOpenChat?.(chatThreadId);
+    } else if (isRecording) {
+      e.stopPropagation();
+      setIsPlaying((playing) => !playing);
+    } else {
+      handlePathClick(result.metadata.path, e, result.metadata.location?.page);
+    }
+  };
 
   return (
     <div
@@ -117,13 +165,17 @@ const SearchResultItem: React.FC<{
             ? 'bg-accent/95 border-primary'
             : 'bg-background/95'
         )}
-        onClick={() => handleResultClick(result)}
+        onClick={handleOpen}
       >
         <CardContent className="p-3 flex items-start space-x-3">
           <div className="flex gap-2">
             <div className="bg-muted rounded-full p-2 mt-1">
-              {isWebSource ? (
+              {chatThreadId ? (
+                <MessageSquare className="h-4 w-4 text-muted-foreground" />
+              ) : isWebSource ? (
                 <Globe className="h-4 w-4 text-muted-foreground" />
+              ) : isRecording ? (
+                <Mic className="h-4 w-4 text-muted-foreground" />
               ) : (
                 <FileText className="h-4 w-4 text-muted-foreground" />
               )}
@@ -132,7 +184,7 @@ const SearchResultItem: React.FC<{
           <div className="flex-1">
             <h3 className="text-sm font-semibold flex items-center gap-2">
               <span
-                onClick={(e) => handlePathClick(result.metadata.path, e)}
+                onClick={handleOpen}
                 className="hover:text-primary cursor-pointer transition-colors flex items-center gap-1"
                 title={result.metadata.path}
               >
@@ -144,7 +196,15 @@ const SearchResultItem: React.FC<{
                 )}
               </span>
               <span className="text-xs font-normal text-muted-foreground">
-                {isWebSource ? 'Web' : 'Document'}
+                {chatThreadId
+                  ? 'Chat'
+                  : isWebSource
+                    ? 'Web'
+                    : isRecording
+                      ? 'Recording'
+                      : 'Document'}
+                {result.metadata.location?.section &&
+                  ` · ${result.metadata.location.section}`}
               </span>
             </h3>
             {isWebSource && (
@@ -159,6 +219,25 @@ const SearchResultItem: React.FC<{
             <div className="text-xs text-muted-foreground mt-1 prose prose-sm max-w-none">
               <ReactMarkdown>{truncatedContent}</ReactMarkdown>
             </div>
+            {isRecording && isPlaying && (
+              <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+                {result.metadata.path.toLowerCase().endsWith('.mp4') ? (
+                  <video
+                    src={mediaUrl(result.metadata.path, startTime)}
+                    controls
+                    autoPlay
+                    className="w-full max-h-64 rounded-md"
+                  />
+                ) : (
+                  <audio
+                    src={mediaUrl(result.metadata.path, startTime)}
+                    controls
+                    autoPlay
+                    className="w-full"
+                  />
+                )}
+              </div>
+            )}
             <div className="flex items-center mt-2 space-x-2">
               <span className="text-xs text-muted-foreground">
                 Modified:{' '}
@@ -166,6 +245,22 @@ const SearchResultItem: React.FC<{
                   result.metadata.modified_at * 1000
                 ).toLocaleDateString()}
               </span>
+              {relevance !== undefined && (
+                <span
+                  className="text-xs text-muted-foreground"
+                  title={`Relevance score ${relevance.toFixed(3)}`}
+                >
+                  · Relevance: {Math.round(relevance * 100)}%
+                </span>
+              )}
+              {result.metadata.ocrConfidence !== undefined && (
+                <span
+                  className="text-xs text-muted-foreground"
+                  title="Text recognized from a scan, mean confidence of its words"
+                >
+                  · OCR: {Math.round(result.metadata.ocrConfidence * 100)}%
+                </span>
+              )}
             </div>
           </div>
         </CardContent>
@@ -174,8 +269,76 @@ const SearchResultItem: React.FC<{
   );
 };
 
+// Thumbnail of a picture matched by its content, loaded once it is shown
+const ImageResultItem: React.FC<{ image: ImageSearchResult }> = ({ image }) => {
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    trpcClient.document.thumbnail
+      .query(image.path)
+      .then((url) => {
+        if (active) setThumbnail(url);
+      })
+      .catch((error) => console.error('Failed to load thumbnail:', error));
+    return (): void => {
+      active = false;
+    };
+  }, [image.path]);
+
+  return (
+    <button
+      type="button"
+      className="shrink-0 w-28 text-left group"
+      title={`${image.path}\nSimilarity ${image.score.toFixed(3)}`}
+      onClick={(e) => handlePathClick(image.path, e)}
+    >
+      {thumbnail ? (
+        <img
+          src={thumbnail}
+          alt={image.filename}
+          className="h-20 w-28 object-cover rounded-md border group-hover:border-primary transition-colors"
+        />
+      ) : (
+        <div className="h-20 w-28 rounded-md border bg-muted flex items-center justify-center">
+          <ImageIcon className="h-4 w-4 text-muted-foreground" />
+        </div>
+      )}
+      <span className="block truncate text-xs text-muted-foreground mt-1 group-hover:text-primary">
+        {image.filename}.{image.extension}
+      </span>
+    </button>
+  );
+};
+
 const SearchResults: React.FC<SearchResultsProps> = React.memo(
-  ({ searchResults, selectedIndex, rankedChunks, createStickyNote }) => {
+  ({
+    searchResults,
+    imageResults = [],
+    selectedIndex,
+    rankedChunks,
+    createStickyNote,
+    hasMore = false,
+    isLoadingMore = false,
+    onLoadMore,
+    onOpenChat,
+  }) => {
+    const loadMoreRef = useRef<HTMLDivElement>(null);
+
+    // Request the next page once the end of the list scrolls into view
+    useEffect(() => {
+      const sentinel = loadMoreRef.current;
+      if (!sentinel || !hasMore || !onLoadMore) return;
+
+      const observer = new IntersectionObserver((entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      });
+      observer.observe(sentinel);
+      return (): void => observer.disconnect();
+    }, [hasMore, onLoadMore]);
+
     const groupedChunks = useMemo(() => {
       const chunksByPath = new Map<string, RankedChunk[]>();
 
@@ -205,24 +368,28 @@ const SearchResults: React.FC<SearchResultsProps> = React.memo(
       return combinedChunks.sort((a, b) => b.score - a.score);
     }, [rankedChunks]);
 
-    const handleResultClick = async (result: SearchResult): Promise<void> => {
-      try {
-        await trpcClient.document.open.mutate(result.metadata.path);
-      } catch (error) {
-        console.error('Failed to open document:', error);
-      }
-    };
-
     return (
       <div
         className={cn(
           'flex-1 overflow-hidden rounded-b-xl',
-          searchResults.length === 0 ? 'h-0' : ''
+          searchResults.length === 0 && imageResults.length === 0 ? 'h-0' : ''
         )}
       >
         <ScrollArea
           className={cn('h-full', searchResults.length === 0 ? 'p-0' : '')}
         >
+          {imageResults.length > 0 && (
+            <div className="mx-2 mt-2 px-1">
+              <div className="text-xs font-medium text-muted-foreground mb-2">
+                Images
+              </div>
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {imageResults.map((image) => (
+                  <ImageResultItem key={image.path} image={image} />
+                ))}
+              </div>
+            </div>
+          )}
           {groupedChunks.map((chunk, index) => {
             const result = searchResults.find(
               (r) => r.metadata.path === chunk.path
@@ -237,9 +404,28 @@ const SearchResults: React.FC<SearchResultsProps> = React.memo(
                 index={index}
                 selectedIndex={selectedIndex}
                 createStickyNote={createStickyNote}
+                onOpenChat={onOpenChat}
               />
             );
           })}
+          {hasMore && onLoadMore && (
+            <div
+              ref={loadMoreRef}
+              className="flex justify-center py-2 text-xs text-muted-foreground"
+            >
+              {isLoadingMore ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <button
+                  type="button"
+                  className="hover:text-primary transition-colors"
+                  onClick={onLoadMore}
+                >
+                  Load more results
+                </button>
+              )}
+            </div>
+          )}
         </ScrollArea>
         {searchResults.length > 0 && (
           <div className="flex items-center justify-between mt-2 px-4 pb-2 text-xs text-muted-foreground bg-background/95 backdrop-blur-sm rounded-b-xl">
@@ -7,6 +7,13 @@ import { Button } from '@/components/ui/button';
 import { Lock, LockOpen } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { LLMSettings } from '@/types';
+import IndexRootsSettings from '@/components/IndexRootsSettings';
+import RerankSettings from '@/components/RerankSettings';
+import WebSearchSettings from '@/components/WebSearchSettings';
+import ModelSettings from '@/components/ModelSettings';
+import CredentialForm from '@/components/CredentialForm';
+import { getLLMProvider, isLocalUrl } from '../../../shared/providers';
+import { getContextWindow } from '@/lib/context-builder';
 
 interface SettingsPanelProps {
   isPrivate: boolean;
@@ -54,7 +61,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-lg font-semibold">Settings</h2>
       </div>
-      <div className="grid gap-4 py-4">
+      <div className="grid gap-4 py-4 overflow-y-auto">
         <div className="flex items-center justify-between">
           <div className="grid gap-1">
             <label htmlFor="privacy" className="text-sm font-medium">
@@ -90,40 +97,84 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             }
             placeholder={isPrivate ? 'http://localhost:11434/v1' : 'https://api.openai.com/v1'}
           />
+          {isPrivate && !isLocalUrl(localSettings.baseUrl) && (
+            <p className="text-xs text-destructive">
+              Private mode only talks to local endpoints, requests to this URL will be blocked.
+            </p>
+          )}
         </div>
+        <CredentialForm
+          provider={getLLMProvider(localSettings)}
+          baseUrl={localSettings.baseUrl}
+          optional={isPrivate}
+        />
         <div className="grid gap-2">
-          <label htmlFor="apiKey" className="text-sm font-medium">
-            API Key {isPrivate && '(Optional)'}
+          <label htmlFor="model" className="text-sm font-medium">
+            Answer Model
           </label>
           <Input
-            id="apiKey"
-            type="password"
-            value={localSettings.apiKey}
+            id="model"
+            value={localSettings.model}
             onChange={(e) =>
               setLocalSettings((prev) => ({
                 ...prev,
-                apiKey: e.target.value,
+                model: e.target.value,
               }))
             }
-            placeholder={isPrivate ? '' : 'sk-...'}
+            placeholder={isPrivate ? 'llama3.2:1b' : 'gpt-4o-mini'}
           />
         </div>
         <div className="grid gap-2">
-          <label htmlFor="model" className="text-sm font-medium">
-            Model
+          <label htmlFor="plannerModel" className="text-sm font-medium">
+            Planner Model
           </label>
           <Input
-            id="model"
-            value={localSettings.model}
+            id="plannerModel"
+            value={localSettings.plannerModel ?? ''}
             onChange={(e) =>
               setLocalSettings((prev) => ({
                 ...prev,
-                model: e.target.value,
+                plannerModel: e.target.value,
               }))
             }
-            placeholder={isPrivate ? 'llama3.2:1b' : 'gpt-4o-mini'}
+            placeholder={localSettings.model || 'Same as answer model'}
+          />
+          <p className="text-xs text-muted-foreground">
+            Picks searches and reads documents before the answer is written. A small, fast model is usually enough.
+          </p>
+        </div>
+        <div className="grid gap-2">
+          <label htmlFor="contextWindow" className="text-sm font-medium">
+            Context Window (tokens)
+          </label>
+          <Input
+            id="contextWindow"
+            type="number"
+            min={1024}
+            value={localSettings.contextWindow ?? ''}
+            onChange={(e) =>
+              setLocalSettings((prev) => ({
+                ...prev,
+                contextWindow: Number(e.target.value) || undefined,
+              }))
+            }
+            placeholder={String(
+              getContextWindow({ ...localSettings, contextWindow: undefined })
+            )}
           />
+          <p className="text-xs text-muted-foreground">
+            How much the answer model can read at once. Leave empty to guess from the model name.
+          </p>
         </div>
+        {!isPrivate && (
+          <>
+            <WebSearchSettings />
+            <CredentialForm provider="brave" optional />
+          </>
+        )}
+        <IndexRootsSettings />
+        <ModelSettings />
+        <RerankSettings />
       </div>
       <div className="mt-auto pt-4 flex justify-end gap-3">
         <Button
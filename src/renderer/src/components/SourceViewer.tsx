@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { ExternalLink, Loader2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { trpcClient } from '../util/trpc-client'
+import type { CitedSource } from '@/lib/citations'
+
+interface SourceViewerProps {
+  source: Pick<CitedSource, 'path' | 'title' | 'location'> & { id?: number; preview?: string }
+  onClose: () => void
+}
+
+/**
+ * Shows a cited document with the passage the answer relied on highlighted and scrolled into
+ * view. Falls back to the passage alone when the document can no longer be read.
+ */
+const SourceViewer: React.FC<SourceViewerProps> = ({ source, onClose }) => {
+  const [content, setContent] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const highlightRef = useRef<HTMLElement>(null)
+
+  useEffect(() => {
+    setContent(null)
+    setError(null)
+    trpcClient.document.fetch
+      .query(source.path)
+      .then(setContent)
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)))
+  }, [source.path])
+
+  // Chunk offsets point into the extracted text, search for the passage when they are
+  // missing or the file changed since it was indexed
+  const range = useMemo((): [number, number] | null => {
+    if (!content) return null
+    const { location, preview } = source
+    if (location && preview && content.slice(location.start, location.end).trim() === preview) {
+      return [location.start, location.end]
+    }
+    const index = preview ? content.indexOf(preview) : -1
+    return index >= 0 && preview ? [index, index + preview.length] : null
+  }, [content, source])
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' })
+  }, [range])
+
+  const openExternally = async (): Promise<void> => {
+    try {
+      await trpcClient.document.open.mutate({ path: source.path, page: source.location?.page })
+    } catch (err) {
+      console.error('Failed to open document:', err)
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 mb-4">
+        <h2 className="flex-1 min-w-0 text-lg font-semibold truncate" title={source.path}>
+          {source.id !== undefined && <span className="text-muted-foreground">[{source.id}] </span>}
+          {source.title || source.path.split('/').pop()}
+          {source.location?.section && (
+            <span className="text-sm font-normal text-muted-foreground">
+              {' '}
+              · {source.location.section}
+            </span>
+          )}
+        </h2>
+        <Button variant="ghost" size="icon" title="Open in default app" onClick={openExternally}>
+          <ExternalLink className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" title="Close" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1 min-h-0">
+        {content === null && !error && (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        )}
+        {(error || (content !== null && !range)) && (
+          <div className="space-y-2 text-sm">
+            <p className="text-xs text-muted-foreground">
+              {error
+                ? `Could not open the document (${error}), showing the cited passage.`
+                : 'The passage was not found in the current version of the document.'}
+            </p>
+            <mark className="block whitespace-pre-wrap rounded bg-primary/20 p-2 text-foreground">
+              {source.preview}
+            </mark>
+          </div>
+        )}
+        {content !== null && (
+          <pre className="whitespace-pre-wrap break-words font-sans text-sm">
+            {range ? (
+              <>
+                {content.slice(0, range[0])}
+                <mark ref={highlightRef} className="rounded bg-primary/20 text-foreground">
+                  {content.slice(range[0], range[1])}
+                </mark>
+                {content.slice(range[1])}
+              </>
+            ) : (
+              content
+            )}
+          </pre>
+        )}
+      </ScrollArea>
+    </div>
+  )
+}
+
+export default SourceViewer
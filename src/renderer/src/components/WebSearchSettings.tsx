@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react'
+import { ArrowDown, ArrowUp } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { trpcClient } from '../util/trpc-client'
+
+type WebSearchProvider = Awaited<ReturnType<typeof trpcClient.webSearch.getProviders.query>>[number]
+
+const WebSearchSettings: React.FC = () => {
+  const [providers, setProviders] = useState<WebSearchProvider[]>([])
+  const [baseUrls, setBaseUrls] = useState<Record<string, string>>({})
+
+  const apply = (saved: WebSearchProvider[]): void => {
+    setProviders(saved)
+    setBaseUrls(Object.fromEntries(saved.map((provider) => [provider.id, provider.baseUrl ?? ''])))
+  }
+
+  useEffect(() => {
+    trpcClient.webSearch.getProviders
+      .query()
+      .then(apply)
+      .catch((err) => console.error('Failed to load web search providers:', err))
+  }, [])
+
+  const save = async (next: WebSearchProvider[]): Promise<void> => {
+    try {
+      apply(
+        await trpcClient.webSearch.setProviders.mutate(
+          next.map(({ id, enabled, baseUrl }) => ({ id, enabled, baseUrl: baseUrl || undefined }))
+        )
+      )
+    } catch (err) {
+      console.error('Failed to save web search providers:', err)
+      apply(providers)
+    }
+  }
+
+  const update = (id: string, change: Partial<WebSearchProvider>): Promise<void> =>
+    save(providers.map((provider) => (provider.id === id ? { ...provider, ...change } : provider)))
+
+  const move = (index: number, offset: number): Promise<void> => {
+    const next = [...providers]
+    const [moved] = next.splice(index, 1)
+    next.splice(index + offset, 0, moved)
+    return save(next)
+  }
+
+  if (providers.length === 0) return null
+
+  return (
+    <div className="grid gap-2">
+      <div className="grid gap-1">
+        <span className="text-sm font-medium">Web Search</span>
+        <span className="text-xs text-muted-foreground">
+          Enabled providers are queried together, results are merged in this order
+        </span>
+      </div>
+      {providers.map((provider, index) => (
+        <div key={provider.id} className="grid gap-1 rounded-md border p-2">
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={provider.enabled}
+              onCheckedChange={(enabled) => update(provider.id, { enabled })}
+              className="data-[state=checked]:bg-primary"
+            />
+            <span className="flex-1 text-sm">{provider.name}</span>
+            {provider.credential && (
+              <span className="text-xs text-muted-foreground">{provider.credential} key</span>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Move up"
+              disabled={index === 0}
+              onClick={() => move(index, -1)}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Move down"
+              disabled={index === providers.length - 1}
+              onClick={() => move(index, 1)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </div>
+          {provider.enabled && (
+            <Input
+              value={baseUrls[provider.id] ?? ''}
+              onChange={(e) => setBaseUrls((prev) => ({ ...prev, [provider.id]: e.target.value }))}
+              onBlur={() => update(provider.id, { baseUrl: baseUrls[provider.id].trim() })}
+              placeholder={provider.defaultBaseUrl}
+              title={
+                provider.credential
+                  ? 'Endpoint, leave empty for the default. Other hosts are queried without the stored key'
+                  : 'Endpoint, leave empty for the default'
+              }
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default WebSearchSettings
@@ -2,7 +2,7 @@ import React from 'react'
 
 interface KeyboardShortcutsProps {
   showDocument: boolean
-  activePanel: 'none' | 'response' | 'document' | 'settings'
+  activePanel: 'none' | 'response' | 'document' | 'settings' | 'chat' | 'history'
 }
 
 export function KeyboardShortcuts({ showDocument, activePanel }: KeyboardShortcutsProps) {
@@ -54,6 +54,10 @@ export function KeyboardShortcuts({ showDocument, activePanel }: KeyboardShortcu
           <kbd className="px-2 py-1 bg-muted rounded">⌘/Ctrl + N</kbd>
           <span>New Note</span>
         </div>
+        <div className="flex items-center space-x-1">
+          <kbd className="px-2 py-1 bg-muted rounded">⌘/Ctrl + Y</kbd>
+          <span>Chat History</span>
+        </div>
       </div>
     </div>
   )
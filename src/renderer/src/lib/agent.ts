@@ -0,0 +1,220 @@
+import { generateText, tool, type CoreMessage, type LanguageModel } from 'ai'
+import { v4 as uuidv4 } from 'uuid'
+import { z } from 'zod'
+import { trpcClient } from '@/util/trpc-client'
+
+export type AgentResult = Awaited<ReturnType<typeof trpcClient.search.quick.query>>[number]
+
+export type AgentTool = 'searchLocal' | 'fetchDocument' | 'searchWeb' | 'readUrl'
+
+export interface AgentStep {
+  id: string
+  tool: AgentTool
+  input: string // Short human readable form of the call, e.g. the query
+  status: 'running' | 'complete' | 'failed'
+  output?: string // Summary of what the tool returned
+}
+
+export interface AgentRun {
+  results: AgentResult[]
+  notes: string // Research log handed to the answer prompt
+  reasoning?: string // Why the agent stopped
+}
+
+interface RunAgentOptions {
+  model: LanguageModel // Wrapped with the context middleware when passages are already known
+  question: string
+  history?: CoreMessage[]
+  maxSteps?: number
+  allowWeb?: boolean // Private mode keeps the agent on local files
+  onStep: (step: AgentStep) => void
+  abortSignal?: AbortSignal
+}
+
+export const AGENT_MAX_STEPS = 6
+const MAX_TOOL_OUTPUT = 4000 // Characters of tool output fed back to the model
+const MAX_RESULTS_PER_CALL = 5
+const MAX_NOTE_OUTPUT = 1500 // Characters per call kept in the research log
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length)}…` : text
+
+const toDate = (value?: string): number | undefined => {
+  if (!value) return undefined
+  const time = new Date(value).getTime()
+  return isNaN(time) ? undefined : time
+}
+
+// Compact listing of search hits, the model fetches full documents when it needs them
+const formatResults = (results: AgentResult[]): string =>
+  results.length === 0
+    ? 'No results.'
+    : results
+        .slice(0, MAX_RESULTS_PER_CALL)
+        .map(
+          (result, index) =>
+            `[${index + 1}] ${result.metadata.path}\n${truncate(result.text, MAX_TOOL_OUTPUT / MAX_RESULTS_PER_CALL)}`
+        )
+        .join('\n\n')
+
+/**
+ * Iterative research loop: the model calls search and read tools until it calls `finish`
+ * or runs out of steps. Every tool call is reported through `onStep` as it starts and ends.
+ */
+export async function runAgent({
+  model,
+  question,
+  history = [],
+  maxSteps = AGENT_MAX_STEPS,
+  allowWeb = true,
+  onStep,
+  abortSignal
+}: RunAgentOptions): Promise<AgentRun> {
+  const results: AgentResult[] = []
+  const notes: string[] = []
+  let reasoning: string | undefined
+
+  // Wraps a tool so each call shows up as a step and lands in the research log
+  const traced =
+    <T>(
+      name: AgentTool,
+      describe: (args: T) => string,
+      execute: (args: T) => Promise<{ output: string; summary: string }>
+    ) =>
+    async (args: T): Promise<string> => {
+      const step: AgentStep = {
+        id: uuidv4(),
+        tool: name,
+        input: describe(args),
+        status: 'running'
+      }
+      onStep(step)
+      try {
+        const { output, summary } = await execute(args)
+        onStep({ ...step, status: 'complete', output: summary })
+        notes.push(`${name}(${step.input}): ${summary}\n${truncate(output, MAX_NOTE_OUTPUT)}`)
+        return output
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        onStep({ ...step, status: 'failed', output: message })
+        return `Error: ${message}`
+      }
+    }
+
+  const search = async (
+    query: string,
+    filters: Parameters<typeof trpcClient.search.quick.query>[0]
+  ): Promise<{ output: string; summary: string }> => {
+    const found = await trpcClient.search.quick.query(filters)
+    results.push(...found)
+    return {
+      output: formatResults(found),
+      summary: `${found.length} result${found.length === 1 ? '' : 's'} for "${query}"`
+    }
+  }
+
+  const readDocument = async (source: string): Promise<{ output: string; summary: string }> => {
+    const content = await trpcClient.document.fetch.query(source)
+    return {
+      output: truncate(content, MAX_TOOL_OUTPUT),
+      summary: `read ${content.length} characters`
+    }
+  }
+
+  const tools = {
+    searchLocal: tool({
+      description:
+        "Search the user's indexed files. Optionally restrict by file extension, folder or modification date.",
+      parameters: z.object({
+        query: z.string().describe('What to look for'),
+        extensions: z
+          .array(z.string())
+          .optional()
+          .describe('File extensions without dot, e.g. ["md", "pdf"]'),
+        folder: z
+          .string()
+          .optional()
+          .describe('Only search below this folder, e.g. ~/alBERT/projects'),
+        after: z.string().optional().describe('Only files modified after this date (YYYY-MM-DD)'),
+        before: z.string().optional().describe('Only files modified before this date (YYYY-MM-DD)')
+      }),
+      execute: traced(
+        'searchLocal',
+        ({ query }) => query,
+        ({ query, extensions, folder, after, before }) =>
+          search(query, {
+            query,
+            filters: {
+              sources: ['local'],
+              extensions,
+              pathPrefix: folder,
+              modifiedAfter: toDate(after),
+              modifiedBefore: toDate(before)
+            }
+          })
+      )
+    }),
+    fetchDocument: tool({
+      description: 'Read the full text of a local file found through searchLocal.',
+      parameters: z.object({ path: z.string().describe('Absolute path of the file') }),
+      execute: traced(
+        'fetchDocument',
+        ({ path }) => path.split('/').pop() ?? path,
+        ({ path }) => readDocument(path)
+      )
+    }),
+    searchWeb: tool({
+      description: 'Search the web for current or public information.',
+      parameters: z.object({ query: z.string().describe('Web search query') }),
+      execute: traced(
+        'searchWeb',
+        ({ query }) => query,
+        ({ query }) => search(query, { query, filters: { sources: ['web'] } })
+      )
+    }),
+    readUrl: tool({
+      description: 'Read the content of a web page as markdown.',
+      parameters: z.object({ url: z.string().url() }),
+      execute: traced(
+        'readUrl',
+        ({ url }) => url,
+        ({ url }) => readDocument(url)
+      )
+    }),
+    // No execute function, calling it ends the loop
+    finish: tool({
+      description: 'Call once the gathered context is enough to answer the question.',
+      parameters: z.object({
+        reasoning: z.string().describe('Why the context is sufficient')
+      })
+    })
+  }
+
+  // Web tools are left out entirely when not allowed, so the model never tries to call them
+  const { searchLocal, fetchDocument, finish } = tools
+  const localTools = { searchLocal, fetchDocument, finish }
+
+  const { steps } = await generateText({
+    model,
+    tools: allowWeb ? tools : localTools,
+    maxSteps,
+    abortSignal,
+    messages: [
+      {
+        role: 'system',
+        content: `You are a research agent gathering context to answer the user's question. Use the tools to search the user's files${allowWeb ? ' and the web' : ''}, read the most promising documents, then call finish. Prefer local files, keep queries specific and stop as soon as the context is sufficient. Today's date is ${new Date().toLocaleDateString()}.`
+      },
+      ...history,
+      { role: 'user', content: question }
+    ]
+  })
+
+  const finishCall = steps
+    .flatMap((step) => step.toolCalls)
+    .find((call) => call.toolName === 'finish')
+  if (finishCall && finishCall.toolName === 'finish') {
+    reasoning = finishCall.args.reasoning
+  }
+
+  return { results, notes: notes.join('\n'), reasoning }
+}
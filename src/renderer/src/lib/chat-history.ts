@@ -0,0 +1,9 @@
+// Saved chats are indexed under this pseudo path, see CHAT_PATH_PREFIX in the main process
+const CHAT_PATH_PREFIX = 'albert-chat://'
+
+/**
+ * Thread ID of a search hit that points at a saved chat, null for files and web results
+ */
+export function getChatThreadId(path: string): string | null {
+  return path.startsWith(CHAT_PATH_PREFIX) ? path.slice(CHAT_PATH_PREFIX.length) : null
+}
@@ -0,0 +1,55 @@
+import type { ChunkLocation } from '../../../main/types'
+
+export interface CitedSource {
+  id: number // Marker the answer cites it with, [1] and up
+  path: string
+  title?: string
+  preview: string // Exact passage the model was given
+  location?: ChunkLocation
+}
+
+// [1], [2, 3] but not markdown links like [1](...)
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g
+
+/**
+ * Renders the numbered passages for the system prompt. The page or section is included so
+ * answers can point at it.
+ */
+export function formatCitedContext(sources: CitedSource[]): string {
+  return sources
+    .map((source) => {
+      const details = [source.title, source.location?.section].filter(Boolean).join(', ')
+      return `[${source.id}] ${source.path}${details ? ` (${details})` : ''}\n${source.preview}`
+    })
+    .join('\n\n')
+}
+
+/**
+ * Source numbers referenced in an answer, in order of first appearance. Works on partial
+ * answers, so it can run on every streamed chunk.
+ */
+export function parseCitationIds(answer: string): number[] {
+  const ids = new Set<number>()
+  for (const match of answer.matchAll(MARKER_PATTERN)) {
+    match[1].split(',').forEach((id) => ids.add(Number(id.trim())))
+  }
+  return Array.from(ids)
+}
+
+/**
+ * Turns citation markers into `#citation-n` links so the markdown renderer can make them
+ * clickable. Numbers without a matching source are left as plain text.
+ */
+export function linkCitations(answer: string, sources: CitedSource[]): string {
+  const known = new Set(sources.map((source) => source.id))
+  return answer.replace(MARKER_PATTERN, (marker, ids: string) => {
+    const numbers = ids.split(',').map((id) => Number(id.trim()))
+    if (!numbers.every((id) => known.has(id))) return marker
+    return numbers.map((id) => `[${id}](#citation-${id})`).join('')
+  })
+}
+
+export const citationId = (href: string): number | null => {
+  const match = href.match(/^#citation-(\d+)$/)
+  return match ? Number(match[1]) : null
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import type { LLMSettings } from '../types'
+import { buildContext, narrowReport } from './context-builder'
+
+const settings: LLMSettings = {
+  baseUrl: '',
+  model: 'gpt-4o',
+  plannerModel: 'gpt-4o',
+  modelType: 'openai',
+  contextWindow: 8000
+}
+
+describe('narrowReport', () => {
+  it('takes the passages the middleware dropped out of the report', async () => {
+    const built = await buildContext({
+      settings,
+      question: 'When is the launch?',
+      chunks: [
+        { path: '/docs/plan.md', text: 'The launch moved to March', score: 0.9 },
+        { path: '/docs/plan.md', text: 'Marketing starts a week earlier', score: 0.8 },
+        { path: '/notes/old.md', text: 'Launch was planned for February', score: 0.5 }
+      ]
+    })
+    const [, second, third] = built.sources
+
+    const report = await narrowReport(built.report, [
+      { source: second, reason: 'history' },
+      { source: third, reason: 'budget' }
+    ])
+
+    const plan = report.documents.find((document) => document.path === '/docs/plan.md')
+    const old = report.documents.find((document) => document.path === '/notes/old.md')
+    expect(plan).toMatchObject({ includedChunks: 1, totalChunks: 2, excluded: 'history' })
+    expect(old).toMatchObject({ includedChunks: 0, tokens: 0, excluded: 'budget' })
+    expect(report.contextTokens).toBe(plan!.tokens)
+  })
+
+  it('leaves the report alone when every passage was given', async () => {
+    const built = await buildContext({
+      settings,
+      question: 'When is the launch?',
+      chunks: [{ path: '/docs/plan.md', text: 'The launch moved to March', score: 0.9 }]
+    })
+
+    expect(await narrowReport(built.report, [])).toBe(built.report)
+  })
+})
@@ -0,0 +1,317 @@
+import type { CoreMessage } from 'ai'
+import type { Tiktoken, TiktokenEncoding } from 'js-tiktoken'
+import type { LLMSettings } from '../types'
+import type { ChunkLocation } from '../../../main/types'
+import { formatCitedContext, type CitedSource } from './citations'
+
+export interface ContextChunk {
+  text: string
+  path: string
+  title?: string
+  score: number
+  location?: ChunkLocation
+}
+
+export interface ContextExchange {
+  question: string
+  answer: string
+}
+
+export type ExclusionReason = 'budget' | 'source-limit' | 'history'
+
+// A passage the context middleware left out of a call
+export interface DroppedSource {
+  source: CitedSource
+  reason: ExclusionReason
+}
+
+export interface ContextDocument {
+  path: string
+  title?: string
+  pinned?: boolean
+  includedChunks: number
+  totalChunks: number
+  tokens: number
+  score: number // Best rerank score among its chunks
+  excluded?: ExclusionReason // Why chunks were left out, unset when all made it in
+}
+
+export interface ContextReport {
+  model: string
+  contextWindow: number
+  budget: number // Tokens available for passages and history together
+  contextTokens: number
+  historyTokens: number
+  historyMessages: number
+  documents: ContextDocument[]
+}
+
+export interface BuiltContext {
+  sources: CitedSource[]
+  context: string
+  history: CoreMessage[]
+  report: ContextReport
+}
+
+const DEFAULT_CONTEXT_WINDOW = 32000
+const OLLAMA_CONTEXT_WINDOW = 8192 // Ollama's num_ctx unless the model file raises it
+
+// Longest prefix wins, so gpt-4o matches before gpt-4
+const KNOWN_CONTEXT_WINDOWS: [string, number][] = [
+  ['gpt-4o', 128000],
+  ['gpt-4.1', 1000000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4', 8192],
+  ['gpt-3.5', 16385],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['o4', 200000],
+  ['claude', 200000],
+  ['gemini', 1000000],
+  ['llama-3', 128000],
+  ['mistral', 32000],
+  ['qwen', 32000]
+]
+
+const ANSWER_RESERVE = 4096 // Capped at a quarter of small windows
+const PROMPT_OVERHEAD = 400 // Instructions wrapped around the context
+const HISTORY_SHARE = 0.2
+const SOURCE_OVERHEAD = 8 // "[n] path (title)" header of every passage
+const DIVERSITY_DECAY = 0.7 // Score multiplier per chunk already picked from the same source
+const MAX_CHUNKS_PER_SOURCE = 4
+
+/**
+ * Context window of the answer model, the per-model setting when present, otherwise a guess
+ * from the model name
+ */
+export function getContextWindow(settings: LLMSettings): number {
+  if (settings.contextWindow && settings.contextWindow > 0) return settings.contextWindow
+  if (settings.modelType === 'ollama') return OLLAMA_CONTEXT_WINDOW
+
+  // OpenRouter names carry a vendor prefix, openai/gpt-4o
+  const name = settings.model.toLowerCase().split('/').pop() ?? ''
+  const match = KNOWN_CONTEXT_WINDOWS.filter(([prefix]) => name.startsWith(prefix)).sort(
+    (a, b) => b[0].length - a[0].length
+  )[0]
+  return match?.[1] ?? DEFAULT_CONTEXT_WINDOW
+}
+
+// Tokens left free for the answer itself
+export const reservedAnswerTokens = (contextWindow: number): number =>
+  Math.min(ANSWER_RESERVE, Math.floor(contextWindow / 4))
+
+// Newer OpenAI models use o200k, everything else is counted with cl100k which is close enough
+// for the Llama and Mistral tokenizers to budget with
+const encodingForModel = (model: string): TiktokenEncoding =>
+  /(^|\/)(gpt-4o|gpt-4\.1|o\d)/.test(model.toLowerCase()) ? 'o200k_base' : 'cl100k_base'
+
+const encoders = new Map<TiktokenEncoding, Promise<Tiktoken>>()
+
+// The ranks are several megabytes, so they load on first use
+const getEncoder = (encoding: TiktokenEncoding): Promise<Tiktoken> => {
+  let encoder = encoders.get(encoding)
+  if (!encoder) {
+    encoder = import('js-tiktoken').then(({ getEncoding }) => getEncoding(encoding))
+    encoders.set(encoding, encoder)
+  }
+  return encoder
+}
+
+export interface Tokenizer {
+  count: (text: string) => number
+  truncate: (text: string, maxTokens: number) => string
+}
+
+export async function getTokenizer(model: string): Promise<Tokenizer> {
+  const encoder = await getEncoder(encodingForModel(model))
+  return {
+    count: (text) => encoder.encode(text).length,
+    truncate: (text, maxTokens): string => {
+      const tokens = encoder.encode(text)
+      return tokens.length <= maxTokens ? text : encoder.decode(tokens.slice(0, maxTokens))
+    }
+  }
+}
+
+/**
+ * Fills the answer model's context window. Pinned notes go in first, then reranked chunks
+ * picked by score with a penalty for every chunk already taken from the same source, and the
+ * most recent exchanges within the history share. History the conversation does not need is
+ * given back to the passages. The report records what was left out and why.
+ */
+export async function buildContext({
+  settings,
+  question,
+  pinned = [],
+  chunks,
+  conversations = [],
+  notes = ''
+}: {
+  settings: LLMSettings
+  question: string
+  pinned?: ContextChunk[]
+  chunks: ContextChunk[]
+  conversations?: ContextExchange[]
+  notes?: string // Research notes sent alongside the question
+}): Promise<BuiltContext> {
+  const tokenizer = await getTokenizer(settings.model)
+  const contextWindow = getContextWindow(settings)
+  const budget = Math.max(
+    0,
+    contextWindow -
+      reservedAnswerTokens(contextWindow) -
+      PROMPT_OVERHEAD -
+      tokenizer.count(question) -
+      (notes ? tokenizer.count(notes) : 0)
+  )
+
+  // Most recent exchanges first, stopping at the first one that no longer fits
+  const history: CoreMessage[] = []
+  let historyTokens = 0
+  for (const exchange of [...conversations].reverse()) {
+    const tokens = tokenizer.count(exchange.question) + tokenizer.count(exchange.answer)
+    if (historyTokens + tokens > budget * HISTORY_SHARE) break
+    historyTokens += tokens
+    history.unshift(
+      { role: 'user', content: exchange.question },
+      { role: 'assistant', content: exchange.answer }
+    )
+  }
+
+  let remaining = budget - historyTokens
+  const sources: CitedSource[] = []
+  const documents = new Map<string, ContextDocument>()
+  const seen = new Set<string>()
+
+  const documentFor = (chunk: ContextChunk, isPinned: boolean): ContextDocument => {
+    let document = documents.get(chunk.path)
+    if (!document) {
+      document = {
+        path: chunk.path,
+        title: chunk.title,
+        pinned: isPinned || undefined,
+        includedChunks: 0,
+        totalChunks: 0,
+        tokens: 0,
+        score: chunk.score
+      }
+      documents.set(chunk.path, document)
+    }
+    document.totalChunks++
+    document.score = Math.max(document.score, chunk.score)
+    return document
+  }
+
+  const include = (chunk: ContextChunk, text: string, tokens: number): void => {
+    const document = documents.get(chunk.path)!
+    document.includedChunks++
+    document.tokens += tokens
+    remaining -= tokens
+    sources.push({
+      id: sources.length + 1,
+      path: chunk.path,
+      title: chunk.title,
+      preview: text,
+      location: chunk.location
+    })
+  }
+
+  // A passage appearing twice is only counted and numbered once
+  const unique = (list: ContextChunk[]): ContextChunk[] =>
+    list.filter((chunk) => {
+      const key = `${chunk.path}\n${chunk.text.trim()}`
+      if (!chunk.text.trim() || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+
+  // Pinned notes are always included, cut short only when they alone overflow the window
+  for (const note of unique(pinned)) {
+    const document = documentFor(note, true)
+    const text = tokenizer.truncate(note.text.trim(), Math.max(0, remaining - SOURCE_OVERHEAD))
+    if (!text) {
+      document.excluded = 'budget'
+      continue
+    }
+    include(note, text, tokenizer.count(text) + SOURCE_OVERHEAD)
+  }
+
+  const candidates = unique(chunks).map((chunk) => ({
+    chunk,
+    text: chunk.text.trim(),
+    tokens: tokenizer.count(chunk.text.trim()) + SOURCE_OVERHEAD,
+    document: documentFor(chunk, false)
+  }))
+
+  while (candidates.length > 0) {
+    let best = 0
+    let bestScore = -Infinity
+    candidates.forEach((candidate, index) => {
+      const score = candidate.chunk.score * DIVERSITY_DECAY ** candidate.document.includedChunks
+      if (score > bestScore) {
+        best = index
+        bestScore = score
+      }
+    })
+    const [{ chunk, text, tokens, document }] = candidates.splice(best, 1)
+
+    if (document.includedChunks >= MAX_CHUNKS_PER_SOURCE) {
+      document.excluded ??= 'source-limit'
+    } else if (tokens > remaining) {
+      // Keep going, a shorter chunk further down may still fit
+      document.excluded = 'budget'
+    } else {
+      include(chunk, text, tokens)
+    }
+  }
+
+  return {
+    sources,
+    context: formatCitedContext(sources),
+    history,
+    report: {
+      model: settings.model,
+      contextWindow,
+      budget,
+      contextTokens: budget - historyTokens - remaining,
+      historyTokens,
+      historyMessages: history.length,
+      documents: Array.from(documents.values()).sort(
+        (a, b) =>
+          Number(!!b.pinned) - Number(!!a.pinned) ||
+          b.includedChunks - a.includedChunks ||
+          b.score - a.score
+      )
+    }
+  }
+}
+
+/**
+ * The report of a built context with the passages the context middleware dropped taken out
+ * again, so it describes what the model was actually given
+ */
+export async function narrowReport(
+  report: ContextReport,
+  dropped: DroppedSource[]
+): Promise<ContextReport> {
+  if (dropped.length === 0) return report
+  const tokenizer = await getTokenizer(report.model)
+  const documents = new Map(report.documents.map((document) => [document.path, { ...document }]))
+  let contextTokens = report.contextTokens
+
+  for (const { source, reason } of dropped) {
+    const document = documents.get(source.path)
+    const tokens = tokenizer.count(source.preview) + SOURCE_OVERHEAD
+    contextTokens -= tokens
+    if (!document) continue
+    document.includedChunks--
+    document.tokens -= tokens
+    document.excluded = reason
+  }
+
+  return {
+    ...report,
+    contextTokens,
+    documents: Array.from(documents.values())
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import type { Experimental_LanguageModelV1Middleware as LanguageModelV1Middleware } from 'ai'
+import type { LLMSettings } from '../types'
+import type { CitedSource } from './citations'
+import type { DroppedSource } from './context-builder'
+import { createContextMiddleware, redactSecrets } from './context-middleware'
+
+type Prompt = Parameters<
+  NonNullable<LanguageModelV1Middleware['transformParams']>
+>[0]['params']['prompt']
+
+const note: CitedSource = { id: 1, path: '/notes/pinned.md', preview: 'Standup is at 9:30' }
+const chunk: CitedSource = {
+  id: 2,
+  path: '/docs/plan.md',
+  preview: 'The launch moved to the second week of March'
+}
+
+const followUp = (answer: string): Prompt => [
+  { role: 'system', content: 'Answer with citations.' },
+  { role: 'user', content: [{ type: 'text', text: 'When is the launch?' }] },
+  { role: 'assistant', content: [{ type: 'text', text: answer }] },
+  { role: 'user', content: [{ type: 'text', text: 'And the standup?' }] }
+]
+
+async function run(
+  sources: CitedSource[],
+  prompt: Prompt,
+  options: { settings?: LLMSettings; redact?: (typeof redactSecrets)[] } = {}
+): Promise<{ system: string; given: CitedSource[]; dropped: DroppedSource[] }> {
+  let given: CitedSource[] = []
+  let dropped: DroppedSource[] = []
+  const middleware = createContextMiddleware({
+    getContext: () => sources,
+    onInject: (injected, left) => {
+      given = injected
+      dropped = left
+    },
+    ...options
+  })
+  const params = await middleware.transformParams!({
+    type: 'stream',
+    params: { inputFormat: 'messages', mode: { type: 'regular' }, prompt }
+  })
+  const system = params.prompt[0]
+  return { system: system.role === 'system' ? system.content : '', given, dropped }
+}
+
+describe('createContextMiddleware', () => {
+  it('gives passages from earlier turns again when the history does not contain them', async () => {
+    const { system, given, dropped } = await run([note, chunk], followUp('Mid March [2].'))
+
+    expect(given.map((source) => source.id)).toEqual([1, 2])
+    expect(dropped).toEqual([])
+    expect(system).toContain(note.preview)
+    expect(system).toContain(chunk.preview)
+  })
+
+  it('skips a passage an earlier turn quotes word for word', async () => {
+    const { system, given, dropped } = await run(
+      [note, chunk],
+      followUp(`The plan says: ${chunk.preview}.`)
+    )
+
+    expect(given.map((source) => source.id)).toEqual([1])
+    expect(dropped).toEqual([{ source: chunk, reason: 'history' }])
+    expect(system).not.toContain(`[2] ${chunk.path}`)
+  })
+
+  it('keeps a passage the current question quotes', async () => {
+    const prompt = followUp('Mid March [2].')
+    prompt[3] = { role: 'user', content: [{ type: 'text', text: `Is "${note.preview}" right?` }] }
+    const { given } = await run([note, chunk], prompt)
+
+    expect(given.map((source) => source.id)).toEqual([1, 2])
+  })
+
+  it('reports the redacted passages it sent', async () => {
+    const secret: CitedSource = {
+      id: 3,
+      path: '/config/.env',
+      preview: 'OPENAI_KEY=sk-abcdefghijklmnopqrstuvwx'
+    }
+    const { system, given } = await run([secret], followUp('No idea.'), {
+      redact: [redactSecrets]
+    })
+
+    expect(given).toEqual([{ ...secret, preview: 'OPENAI_KEY=[redacted]' }])
+    expect(system).not.toContain('sk-abcdefghijklmnopqrstuvwx')
+  })
+
+  it('reports passages that do not fit the window as dropped for the budget', async () => {
+    const long: CitedSource = { id: 3, path: '/docs/long.md', preview: 'word '.repeat(2000) }
+    const { given, dropped } = await run([note, long], followUp('Mid March.'), {
+      settings: {
+        baseUrl: '',
+        model: 'gpt-4o',
+        plannerModel: 'gpt-4o',
+        modelType: 'openai',
+        contextWindow: 1000
+      }
+    })
+
+    expect(given.map((source) => source.id)).toEqual([1])
+    expect(dropped).toEqual([{ source: long, reason: 'budget' }])
+  })
+})
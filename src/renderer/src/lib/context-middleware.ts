@@ -1,20 +1,128 @@
-import type { 
-  Experimental_LanguageModelV1Middleware as LanguageModelV1Middleware 
-} from "ai";
+import type { Experimental_LanguageModelV1Middleware as LanguageModelV1Middleware } from 'ai'
+import type { LLMSettings } from '../types'
+import { formatCitedContext, type CitedSource } from './citations'
+import {
+  getContextWindow,
+  getTokenizer,
+  reservedAnswerTokens,
+  type DroppedSource
+} from './context-builder'
+
+type CallOptions = Parameters<
+  NonNullable<LanguageModelV1Middleware['transformParams']>
+>[0]['params']
+
+export type Redactor = (text: string) => string
 
 interface ContextMiddlewareOptions {
-  getContext: () => string;
+  // Read on every call, so agent steps and late rebuilds see the latest passages
+  getContext: () => CitedSource[]
+  // Told which passages a call was actually given and why the others were dropped, before the
+  // call goes out
+  onInject?: (given: CitedSource[], dropped: DroppedSource[]) => void | Promise<void>
+  // Model the context is budgeted for, no budgeting when unset
+  settings?: LLMSettings
+  heading?: string
+  redact?: Redactor[]
+}
+
+// Keys and tokens that tend to end up in notes and config files
+const SECRET_PATTERNS = [
+  /\b(sk|pk|rk)-[A-Za-z0-9_-]{16,}\b/g,
+  /\bgh[pousr]_[A-Za-z0-9]{20,}\b/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+]
+
+/**
+ * Masks API keys, access tokens and private keys before passages leave the machine
+ */
+export const redactSecrets: Redactor = (text) =>
+  SECRET_PATTERNS.reduce((redacted, pattern) => redacted.replace(pattern, '[redacted]'), text)
+
+const messageText = (message: CallOptions['prompt'][number]): string => {
+  if (message.role === 'system') return message.content
+  return message.content
+    .map((part) => {
+      switch (part.type) {
+        case 'text':
+          return part.text
+        case 'tool-call':
+          return JSON.stringify(part.args)
+        case 'tool-result':
+          return JSON.stringify(part.result)
+        default:
+          return ''
+      }
+    })
+    .join('\n')
 }
 
-export const createContextMiddleware = (
-  options: ContextMiddlewareOptions
-): LanguageModelV1Middleware => {
-  return {
-    transformParams: async ({ params }) => {
-      // Return updated params with messages
-      return {
-        ...params
-      };
+/**
+ * Injects the numbered context passages into the system message of every call, creating
+ * one when the prompt has none. Passages earlier turns already contain are skipped,
+ * the rest are redacted and, when `settings` is given, kept in rank order while they fit the
+ * model's window next to the prompt with room left for the answer.
+ */
+export const createContextMiddleware = ({
+  getContext,
+  onInject,
+  settings,
+  heading = 'Context',
+  redact = []
+}: ContextMiddlewareOptions): LanguageModelV1Middleware => ({
+  transformParams: async ({ params }): Promise<CallOptions> => {
+    const { prompt } = params
+    // Earlier turns, the current question and anything after it may quote passages on purpose
+    const lastQuestion = prompt.map((message) => message.role).lastIndexOf('user')
+    const history = prompt
+      .slice(0, Math.max(lastQuestion, 0))
+      .filter((message) => message.role !== 'system')
+      .map(messageText)
+      .join('\n')
+
+    const tokenizer = settings ? await getTokenizer(settings.model) : null
+    let available = Infinity
+    if (settings && tokenizer) {
+      const contextWindow = getContextWindow(settings)
+      const promptTokens = prompt.reduce(
+        (total, message) => total + tokenizer.count(messageText(message)),
+        0
+      )
+      available = contextWindow - reservedAnswerTokens(contextWindow) - promptTokens
+    }
+
+    const sources: CitedSource[] = []
+    const dropped: DroppedSource[] = []
+    for (const source of getContext()) {
+      if (history.includes(source.preview)) {
+        dropped.push({ source, reason: 'history' })
+        continue
+      }
+      const passage = {
+        ...source,
+        preview: redact.reduce((text, redactor) => redactor(text), source.preview)
+      }
+      const tokens = tokenizer ? tokenizer.count(formatCitedContext([passage])) + 2 : 0
+      if (tokens > available) {
+        dropped.push({ source, reason: 'budget' })
+        continue
+      }
+      available -= tokens
+      sources.push(passage)
+    }
+    await onInject?.(sources, dropped)
+    if (sources.length === 0) return params
+
+    const section = `${heading}:\n${formatCitedContext(sources)}`
+    const [first, ...rest] = prompt
+    return {
+      ...params,
+      prompt:
+        first?.role === 'system'
+          ? [{ ...first, content: `${first.content}\n\n${section}` }, ...rest]
+          : [{ role: 'system', content: section }, ...prompt]
     }
-  };
-}; 
\ No newline at end of file
+  }
+})
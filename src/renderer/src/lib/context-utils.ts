@@ -38,23 +38,19 @@ export async function getRankedChunks({
   if (allChunks.length === 0) {
     return []
   }
-  return allChunks
   try {
     const rankings = await trpcClient.embeddings.rerank.query({
       query,
       documents: allChunks.map(chunk => chunk.text.slice(0, 350))
     })
 
-    // Combine rankings with chunk metadata
-    const rankedChunks = rankings.map((score, index) => ({
-      ...allChunks[index],
-      score
-    }))
-
-    // Sort by score and filter low-relevance chunks
-    return rankedChunks
-      .sort((a, b) => b.score - a.score)
-      .filter(chunk => chunk.score > minScore)
+    // Rankings come back best first, corpus_id pointing at the chunk they score
+    return rankings
+      .map((ranking) => ({
+        ...allChunks[ranking.corpus_id],
+        score: ranking.score
+      }))
+      .filter((chunk) => chunk.score >= minScore)
 
   } catch (error) {
     console.error('Error reranking chunks:', error)
@@ -0,0 +1,175 @@
+import type { LanguageModelV1, LanguageModelV1StreamPart } from 'ai'
+import type { LLMSettings } from '@/types'
+import { trpcClient } from '@/util/trpc-client'
+import type { LLMCallOptions, LLMEndpoint, LLMStreamPart } from '../../../main/types'
+import { getLLMProvider } from '../../../shared/providers'
+
+export type ModelSlot = 'planner' | 'answer'
+
+const fromStreamPart = (part: LLMStreamPart): LanguageModelV1StreamPart => {
+  switch (part.type) {
+    case 'response-metadata':
+      return {
+        ...part,
+        timestamp: part.timestamp !== undefined ? new Date(part.timestamp) : undefined
+      }
+    case 'error':
+      return { type: 'error', error: new Error(part.error) }
+    default:
+      return part
+  }
+}
+
+/**
+ * Language model that runs in the main process through the llm.chat subscription. Keys,
+ * private mode and rate limits are all handled there, this side only relays the stream.
+ * Aborting or cancelling the stream unsubscribes, which cancels the request in main.
+ */
+function createMainProcessModel(endpoint: LLMEndpoint): LanguageModelV1 {
+  const doStream: LanguageModelV1['doStream'] = async ({
+    abortSignal,
+    inputFormat,
+    mode,
+    prompt,
+    providerMetadata,
+    maxTokens,
+    temperature,
+    stopSequences,
+    topP,
+    topK,
+    presencePenalty,
+    frequencyPenalty,
+    responseFormat,
+    seed
+  }) => {
+    // Request headers and the abort signal cannot cross IPC, the rest of the call is relayed
+    const options: LLMCallOptions = {
+      inputFormat,
+      mode,
+      prompt,
+      providerMetadata,
+      maxTokens,
+      temperature,
+      stopSequences,
+      topP,
+      topK,
+      presencePenalty,
+      frequencyPenalty,
+      responseFormat,
+      seed
+    }
+    let subscription: { unsubscribe: () => void } | undefined
+    let closed = false
+
+    const stream = new ReadableStream<LanguageModelV1StreamPart>({
+      start(controller): void {
+        const close = (error?: unknown): void => {
+          if (closed) return
+          closed = true
+          subscription?.unsubscribe()
+          if (error === undefined) controller.close()
+          else controller.error(error)
+        }
+
+        subscription = trpcClient.llm.chat.subscribe(
+          { endpoint, options },
+          {
+            onData: (part) => {
+              if (closed) return
+              controller.enqueue(fromStreamPart(part))
+              // Finish and error parts end the call, even if completion is never signalled
+              if (part.type === 'finish' || part.type === 'error') close()
+            },
+            onError: (error) => close(error),
+            onComplete: () => close()
+          }
+        )
+        abortSignal?.addEventListener('abort', () => close(abortSignal.reason))
+      },
+      cancel(): void {
+        closed = true
+        subscription?.unsubscribe()
+      }
+    })
+
+    return { stream, rawCall: { rawPrompt: options.prompt, rawSettings: {} } }
+  }
+
+  // Collects the stream, so tool loops with generateText work over the same route
+  const doGenerate: LanguageModelV1['doGenerate'] = async (options) => {
+    const { stream, rawCall } = await doStream(options)
+    const result: Awaited<ReturnType<LanguageModelV1['doGenerate']>> = {
+      text: '',
+      toolCalls: [],
+      finishReason: 'unknown',
+      usage: { promptTokens: NaN, completionTokens: NaN },
+      rawCall
+    }
+
+    const reader = stream.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      switch (value.type) {
+        case 'text-delta':
+          result.text += value.textDelta
+          break
+        case 'tool-call':
+          result.toolCalls!.push({
+            toolCallType: value.toolCallType,
+            toolCallId: value.toolCallId,
+            toolName: value.toolName,
+            args: value.args
+          })
+          break
+        case 'finish':
+          result.finishReason = value.finishReason
+          result.usage = value.usage
+          break
+        case 'error':
+          throw value.error
+      }
+    }
+    return result
+  }
+
+  return {
+    specificationVersion: 'v1',
+    provider: `main.${endpoint.modelType}`,
+    modelId: endpoint.model,
+    defaultObjectGenerationMode: 'tool',
+    doStream,
+    doGenerate
+  }
+}
+
+/**
+ * Resolves the model for a slot of the active profile. Every LLM call goes through here and
+ * on to the main process, which applies credentials, private mode and rate limits.
+ */
+export function getLanguageModel(settings: LLMSettings, slot: ModelSlot): LanguageModelV1 {
+  return createMainProcessModel({
+    baseUrl: settings.baseUrl,
+    // Older saved settings have no planner model, fall back to the answer model
+    model: slot === 'planner' ? settings.plannerModel || settings.model : settings.model,
+    modelType: settings.modelType
+  })
+}
+
+/**
+ * Moves keys saved in localStorage by older versions into the credential store
+ */
+export async function migrateStoredApiKey(storageKey: string): Promise<void> {
+  const saved = localStorage.getItem(storageKey)
+  if (!saved) return
+
+  const { apiKey, ...settings } = JSON.parse(saved)
+  if (apiKey === undefined) return
+  if (apiKey) {
+    await trpcClient.credentials.set.mutate({
+      provider: getLLMProvider(settings),
+      key: apiKey
+    })
+  }
+  localStorage.setItem(storageKey, JSON.stringify(settings))
+}
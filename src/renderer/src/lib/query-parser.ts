@@ -0,0 +1,113 @@
+import type { SearchFilters, SearchSource } from '../../../main/types'
+
+export type FilterKey = 'ext' | 'in' | 'after' | 'before' | 'source'
+
+export interface FilterToken {
+  key: FilterKey
+  value: string
+  raw: string
+}
+
+export interface ParsedQuery {
+  text: string
+  filters: SearchFilters
+  tokens: FilterToken[]
+}
+
+// key:value or key:"quoted value", only at the start of a word
+const FILTER_PATTERN = /(^|\s)(ext|in|after|before|source):("[^"]*"|\S+)/gi
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const SOURCES: SearchSource[] = ['local', 'web']
+
+const parseDate = (value: string, endOfDay: boolean): number | undefined => {
+  const match = value.match(DATE_PATTERN)
+  if (!match) return undefined
+  const [, year, month, day] = match.map(Number)
+  const date = endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day)
+  return isNaN(date.getTime()) ? undefined : date.getTime()
+}
+
+/**
+ * Applies a single filter token, returning false when its value is invalid
+ */
+const applyToken = (filters: SearchFilters, key: FilterKey, value: string): boolean => {
+  switch (key) {
+    case 'ext': {
+      const extensions = value
+        .split(',')
+        .map((extension) => extension.trim().replace(/^\./, '').toLowerCase())
+        .filter(Boolean)
+      if (extensions.length === 0) return false
+      filters.extensions = [...(filters.extensions ?? []), ...extensions]
+      return true
+    }
+    case 'in':
+      if (!value) return false
+      filters.pathPrefix = value
+      return true
+    case 'after': {
+      const timestamp = parseDate(value, false)
+      if (timestamp === undefined) return false
+      filters.modifiedAfter = timestamp
+      return true
+    }
+    case 'before': {
+      const timestamp = parseDate(value, true)
+      if (timestamp === undefined) return false
+      filters.modifiedBefore = timestamp
+      return true
+    }
+    case 'source': {
+      const sources = value
+        .split(',')
+        .map((source) => source.trim().toLowerCase())
+        .filter((source): source is SearchSource => SOURCES.includes(source as SearchSource))
+      if (sources.length === 0) return false
+      filters.sources = [...(filters.sources ?? []), ...sources]
+      return true
+    }
+  }
+}
+
+/**
+ * Extracts inline filters such as `ext:pdf,md`, `in:~/notes`, `after:2024-01-01`,
+ * `before:2024-12-31` and `source:local` from a search query.
+ * Tokens with invalid values are left in the query text.
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const filters: SearchFilters = {}
+  const tokens: FilterToken[] = []
+
+  const text = input
+    .replace(FILTER_PATTERN, (match, prefix: string, key: string, rawValue: string) => {
+      const filterKey = key.toLowerCase() as FilterKey
+      const value = rawValue.replace(/^"|"$/g, '')
+      if (!applyToken(filters, filterKey, value)) return match
+
+      tokens.push({ key: filterKey, value, raw: match.trim() })
+      return prefix
+    })
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  return { text, filters, tokens }
+}
+
+/**
+ * Removes a filter token from the raw query, keeping the rest of it intact
+ */
+export function removeFilterToken(input: string, raw: string): string {
+  const index = input.indexOf(raw)
+  if (index === -1) return input
+  return (input.slice(0, index) + input.slice(index + raw.length)).replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Builds the `search.quick` input for a raw query
+ */
+export function toSearchInput(input: string): { query: string; filters: SearchFilters } {
+  const { text, filters } = parseQuery(input)
+  return { query: text, filters }
+}
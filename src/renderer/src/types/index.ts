@@ -1,8 +1,9 @@
 export interface LLMSettings {
   baseUrl: string;
-  apiKey: string;
-  model: string;
+  model: string; // Writes the answer
+  plannerModel: string; // Drives the research agent
   modelType: 'openai' | 'ollama';
+  contextWindow?: number; // Tokens of the answer model, guessed from its name when unset
 }
 
 export interface ContextTab {
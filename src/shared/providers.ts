@@ -0,0 +1,50 @@
+// Used by the main process and the renderer alike, so both sides agree on which service an
+// endpoint belongs to and where its key may be sent
+
+export const CREDENTIAL_PROVIDERS = ['openrouter', 'openai', 'ollama', 'brave'] as const
+export type CredentialProvider = (typeof CREDENTIAL_PROVIDERS)[number]
+
+export type LLMProvider = Extract<CredentialProvider, 'openai' | 'openrouter' | 'ollama'>
+
+// The only hosts a stored key is sent to. Ollama runs on the user's own machine, so its key
+// stays with local servers.
+const CREDENTIAL_HOSTS: Record<Exclude<CredentialProvider, 'ollama'>, string> = {
+  openrouter: 'openrouter.ai',
+  openai: 'api.openai.com',
+  brave: 'api.search.brave.com'
+}
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]', '::1']
+
+const getHostname = (url: string): string | null => {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return null
+  }
+}
+
+export function isLocalUrl(url: string): boolean {
+  const hostname = getHostname(url)
+  return hostname !== null && (LOCAL_HOSTS.includes(hostname) || hostname.endsWith('.localhost'))
+}
+
+/**
+ * Whether the stored key of a provider may be sent to a URL
+ */
+export function isCredentialHost(provider: CredentialProvider, url: string): boolean {
+  if (provider === 'ollama') return isLocalUrl(url)
+  return getHostname(url) === CREDENTIAL_HOSTS[provider]
+}
+
+/**
+ * Credential slot and network policy service for an endpoint. OpenRouter speaks the OpenAI
+ * protocol, so it is told apart by the host of its base URL.
+ */
+export function getLLMProvider(endpoint: {
+  baseUrl: string
+  modelType: 'openai' | 'ollama'
+}): LLMProvider {
+  if (endpoint.modelType === 'ollama') return 'ollama'
+  return getHostname(endpoint.baseUrl) === CREDENTIAL_HOSTS.openrouter ? 'openrouter' : 'openai'
+}